@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConfigError } from "@/lib/bi-config";
+import { getAuthProvider } from "@/lib/auth/providers";
+import { setSessionCookie } from "@/lib/auth/server";
+import {
+  assertLoginAllowed,
+  clearLoginFailures,
+  recordLoginFailure,
+} from "@/lib/auth/login-throttle";
+import { usageLimitResponse } from "@/lib/usage-limiter";
+import { UsageLimitError } from "@/lib/usage-limits";
+
+const MAX_CREDENTIAL_LENGTH = 256;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { username, password } = (body ?? {}) as Record<string, unknown>;
+
+    if (
+      typeof username !== "string" ||
+      typeof password !== "string" ||
+      !username.trim() ||
+      !password
+    ) {
+      return NextResponse.json(
+        { error: "Username and password are required" },
+        { status: 400 }
+      );
+    }
+    assertLoginAllowed(request, username);
+    if (
+      username.length > MAX_CREDENTIAL_LENGTH ||
+      password.length > MAX_CREDENTIAL_LENGTH
+    ) {
+      recordLoginFailure(request, username);
+      return NextResponse.json(
+        { error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getAuthProvider().authenticate({ username, password });
+    if (!user) {
+      recordLoginFailure(request, username);
+      return NextResponse.json(
+        { error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+    clearLoginFailures(username);
+
+    const response = NextResponse.json({ user });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    if (error instanceof UsageLimitError) {
+      console.warn("Sign-in throttled:", error.message);
+      return usageLimitResponse(error);
+    }
+    console.error("Sign-in error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof ConfigError
+            ? "Sign-in is not configured correctly"
+            : "Failed to sign in",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ user: await getSessionUser() });
+  } catch (error) {
+    console.error("Session lookup error:", error);
+    return NextResponse.json(
+      { error: "Failed to read the session" },
+      { status: 500 }
+    );
+  }
+}
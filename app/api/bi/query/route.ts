@@ -1,42 +1,185 @@
 import { NextRequest, NextResponse } from "next/server";
-import axios from "axios";
+import {
+  NDJSON_CONTENT_TYPE,
+  encodeEvent,
+  payloadToEvents,
+  readLines,
+  type QueryStreamEvent,
+} from "@/lib/bi-stream";
+import { getBIConfig } from "@/lib/bi-config";
+import {
+  errorResponse,
+  fitQueryContext,
+  getCorrelationId,
+  readJsonBody,
+  validateQueryBody,
+} from "@/lib/bi-request";
+import { UpstreamError, postToUpstream } from "@/lib/bi-upstream";
+import { askQuestion, missingSQL } from "@/lib/bi-query";
+import { SQLGuardError, assertReadOnly, capRows } from "@/lib/sql-guard";
+import { enforceUsageLimits } from "@/lib/usage-limiter";
 
+// A question the browser gives up on (the Stop button, or leaving the page)
+// is cancelled upstream too, whether the backend is still thinking or
+// already streaming its answer.
 export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+  const cancellation = new AbortController();
+  request.signal.addEventListener("abort", () => cancellation.abort(), {
+    once: true,
+  });
+
   try {
-    const body = await request.json();
-
-    const response = await axios.post(
-      "http://52.3.202.231:8080/bi/query",
-      body,
-      {
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-      }
+    const { maxBodyBytes, maxRows, historyTokenBudget } = getBIConfig();
+    const body = fitQueryContext(
+      validateQueryBody(await readJsonBody(request, maxBodyBytes)),
+      historyTokenBudget
     );
+    await enforceUsageLimits(request, "query");
 
-    return NextResponse.json(response.data);
-  } catch (error) {
-    console.error("API proxy error:", error);
-
-    if (axios.isAxiosError(error)) {
-      if (error.response) {
-        return NextResponse.json(
-          { error: "Server error", details: error.response.data },
-          { status: error.response.status }
-        );
-      } else if (error.request) {
-        return NextResponse.json(
-          { error: "No response from server" },
-          { status: 502 }
-        );
-      }
+    if (request.headers.get("accept")?.includes(NDJSON_CONTENT_TYPE)) {
+      const upstream = await postToUpstream(body, {
+        accept: `${NDJSON_CONTENT_TYPE}, text/event-stream, application/json`,
+        correlationId,
+        signal: cancellation.signal,
+      });
+      return streamQuery(upstream, correlationId, maxRows, cancellation);
     }
 
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+    const data = await askQuestion(body, {
+      correlationId,
+      signal: cancellation.signal,
+    });
+
+    return NextResponse.json(data, {
+      headers: { "X-Correlation-ID": correlationId },
+    });
+  } catch (error) {
+    return errorResponse(error, correlationId);
   }
 }
+
+// Streaming mode: forward each phase (SQL, rows, chart, insights) to the
+// client as soon as the backend produces it. Backends that only answer with
+// a single JSON body still work; their phases are emitted together once the
+// body is in.
+//
+// Rows, charts and insights are held back until the SQL that produced them
+// has passed the read-only guard. A rejected query, or data that never gets
+// any SQL, ends the stream with a typed error and nothing held is forwarded.
+//
+// `cancellation` is aborted when the client stops reading, which also ends
+// the upstream call.
+function streamQuery(
+  upstream: Response,
+  correlationId: string,
+  maxRows: number,
+  cancellation: AbortController
+) {
+  const contentType = upstream.headers.get("content-type") ?? "";
+  const isIncremental =
+    contentType.includes(NDJSON_CONTENT_TYPE) ||
+    contentType.includes("text/event-stream");
+  const upstreamBody = upstream.body;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const send = (event: QueryStreamEvent) => {
+        if (!cancellation.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeEvent(event)));
+        }
+      };
+
+      const capEvent = (event: QueryStreamEvent): QueryStreamEvent => {
+        if (event.type !== "rows") return event;
+        const { rows, truncated } = capRows(event.results, maxRows);
+        return {
+          type: "rows",
+          results: rows,
+          truncated_at: truncated ? maxRows : undefined,
+        };
+      };
+
+      let lastSql: string | undefined;
+      let sqlApproved = false;
+      let held: QueryStreamEvent[] = [];
+
+      const forward = (event: QueryStreamEvent) => {
+        if (event.type === "sql") {
+          lastSql = event.sql_query;
+          // Throws SQLGuardError, which ends the stream below
+          assertReadOnly(event.sql_query);
+          sqlApproved = true;
+          send(event);
+          held.forEach(send);
+          held = [];
+        } else if (event.type === "status" || sqlApproved) {
+          send(capEvent(event));
+        } else {
+          held.push(capEvent(event));
+        }
+      };
+
+      try {
+        if (!upstreamBody) {
+          throw new UpstreamError("Empty response from server", 502);
+        }
+
+        if (isIncremental) {
+          await readLines(upstreamBody, (line) => {
+            let payload;
+            try {
+              payload = JSON.parse(line);
+            } catch {
+              console.warn(
+                `[${correlationId}] Skipping unparseable upstream line:`,
+                line
+              );
+              return;
+            }
+            payloadToEvents(payload).forEach(forward);
+          });
+        } else {
+          const payload = await new Response(upstreamBody).json();
+          payloadToEvents(payload).forEach(forward);
+        }
+        if (held.length > 0) throw missingSQL();
+        send({ type: "done" });
+      } catch (error) {
+        if (cancellation.signal.aborted) {
+          console.info(`[${correlationId}] Client cancelled the question`);
+        } else if (error instanceof SQLGuardError) {
+          console.warn(
+            `[${correlationId}] SQL guard rejected a query:`,
+            error.code,
+            error.message
+          );
+          send({
+            type: "error",
+            error: error.message,
+            status: 422,
+            code: error.code,
+            sql_query: lastSql,
+          });
+        } else {
+          console.error(`[${correlationId}] API proxy stream error:`, error);
+          send({ type: "error", error: "Stream interrupted" });
+        }
+      } finally {
+        if (!cancellation.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      cancellation.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      "X-Correlation-ID": correlationId,
+    },
+  });
+}
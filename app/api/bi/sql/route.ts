@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBIConfig } from "@/lib/bi-config";
+import {
+  RequestError,
+  errorResponse,
+  getCorrelationId,
+  readJsonBody,
+  validateSQLBody,
+} from "@/lib/bi-request";
+import { runGuardedSQL } from "@/lib/bi-sql";
+import { getSessionUser } from "@/lib/auth/server";
+import { attachRerunResults } from "@/lib/conversation-store";
+import { enforceUsageLimits } from "@/lib/usage-limiter";
+
+// Executes user-edited SQL through the BI backend (see lib/bi-sql.ts). With a
+// conversation and message id the new rows replace those of the stored
+// answer, so reopening the chat shows the corrected results. Each run counts
+// as a question toward the user's limits.
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const { maxBodyBytes } = getBIConfig();
+    const body = validateSQLBody(await readJsonBody(request, maxBodyBytes));
+    if (Boolean(body.conversation_id) !== Boolean(body.message_id)) {
+      throw new RequestError(
+        "conversation_id and message_id must be sent together",
+        400
+      );
+    }
+    await enforceUsageLimits(request, "query");
+
+    const rerun = await runGuardedSQL(body.sql_query, correlationId);
+
+    if (body.conversation_id && body.message_id) {
+      // Only the signed-in user's own answers can be replaced
+      const user = await getSessionUser();
+      const message =
+        user &&
+        (await attachRerunResults(
+          user.id,
+          body.conversation_id,
+          body.message_id,
+          rerun
+        ));
+      if (!message) {
+        throw new RequestError("Answer not found", 404);
+      }
+    }
+
+    return NextResponse.json(rerun, {
+      headers: { "X-Correlation-ID": correlationId },
+    });
+  } catch (error) {
+    return errorResponse(error, correlationId);
+  }
+}
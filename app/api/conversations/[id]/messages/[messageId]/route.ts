@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import { setTranscript } from "@/lib/conversation-store";
+
+type RouteContext = { params: Promise<{ id: string; messageId: string }> };
+
+// Adds the transcript to a voice message once transcription is done
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { id, messageId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const { transcript } = body;
+
+    if (typeof transcript !== "string") {
+      return NextResponse.json(
+        { error: "transcript must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const message = await setTranscript(
+      user.id,
+      id,
+      Number(messageId),
+      transcript
+    );
+    if (!message) {
+      return NextResponse.json(
+        { error: "Voice message not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error("Transcript save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save transcript" },
+      { status: 500 }
+    );
+  }
+}
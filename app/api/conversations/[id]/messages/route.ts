@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import { appendMessage } from "@/lib/conversation-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const { message } = body;
+
+    if (
+      !message ||
+      typeof message.content !== "string" ||
+      (message.sender !== "user" && message.sender !== "assistant")
+    ) {
+      return NextResponse.json(
+        { error: "A message with content and sender is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      message.parentId !== undefined &&
+      message.parentId !== null &&
+      !Number.isInteger(message.parentId)
+    ) {
+      return NextResponse.json(
+        { error: "parentId must be a message id or null" },
+        { status: 400 }
+      );
+    }
+
+    const stored = await appendMessage(user.id, id, message);
+    if (!stored) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: stored }, { status: 201 });
+  } catch (error) {
+    console.error("Message append error:", error);
+    return NextResponse.json(
+      { error: "Failed to save message" },
+      { status: 500 }
+    );
+  }
+}
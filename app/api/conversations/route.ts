@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import {
+  createConversation,
+  listConversations,
+} from "@/lib/conversation-store";
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const conversations = await listConversations(user.id);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error("Conversation list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load conversations" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const { title, messages = [] } = body;
+
+    if (!Array.isArray(messages)) {
+      return NextResponse.json(
+        { error: "messages must be an array" },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await createConversation(user.id, messages, title);
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error("Conversation create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create conversation" },
+      { status: 500 }
+    );
+  }
+}
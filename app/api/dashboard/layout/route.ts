@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import { saveLayout } from "@/lib/dashboard-store";
+
+export async function PUT(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { layout } = await request.json();
+
+    const valid =
+      Array.isArray(layout) &&
+      layout.every(
+        (item) =>
+          typeof item?.id === "string" &&
+          Number.isFinite(item?.size?.w) &&
+          Number.isFinite(item?.size?.h)
+      );
+    if (!valid) {
+      return NextResponse.json(
+        { error: "layout must be a list of { id, size: { w, h } }" },
+        { status: 400 }
+      );
+    }
+
+    const tiles = await saveLayout(user.id, layout);
+    return NextResponse.json({ tiles });
+  } catch (error) {
+    console.error("Dashboard layout error:", error);
+    return NextResponse.json(
+      { error: "Failed to save layout" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import {
+  RequestError,
+  errorResponse,
+  getCorrelationId,
+} from "@/lib/bi-request";
+import { getBIConfig } from "@/lib/bi-config";
+import { askQuestion } from "@/lib/bi-query";
+import { runGuardedSQL } from "@/lib/bi-sql";
+import {
+  getTile,
+  updateTile,
+  type DashboardTileUpdate,
+} from "@/lib/dashboard-store";
+import { enforceUsageLimits } from "@/lib/usage-limiter";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Runs the tile's stored SQL again and saves the new rows as its snapshot.
+// The SQL goes through the same read-only guard as edited chat queries.
+// Without a SQL endpoint (BI_SQL_URL), or SQL to run, the tile's question is
+// asked again instead. Either way a refresh counts as a question toward the
+// user's limits.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const { id } = await params;
+    const tile = await getTile(user.id, id);
+    if (!tile) {
+      throw new RequestError("Tile not found", 404);
+    }
+    await enforceUsageLimits(request, "query");
+
+    let update: DashboardTileUpdate;
+    if (getBIConfig().sqlUrl && tile.sqlQuery) {
+      const { sql_query, results } = await runGuardedSQL(
+        tile.sqlQuery,
+        correlationId
+      );
+      update = {
+        snapshot: {
+          sql_query,
+          results,
+          // The chart is drawn from the new rows; the backend's image and
+          // insights described the old ones
+          visualization: tile.snapshot.visualization,
+        },
+      };
+    } else {
+      const answer = await askQuestion(
+        { question: tile.question },
+        { correlationId, signal: request.signal }
+      );
+      update = {
+        sqlQuery: answer.sql_query ?? tile.sqlQuery,
+        snapshot: {
+          sql_query: answer.sql_query,
+          results: answer.results ?? [],
+          // Keep the chart type the tile was pinned with
+          visualization: tile.snapshot.visualization ?? answer.visualization,
+          formatted_data: answer.formatted_data,
+          insights: answer.insights,
+        },
+      };
+    }
+
+    const updated = await updateTile(user.id, id, {
+      ...update,
+      refreshedAt: new Date().toISOString(),
+    });
+    if (!updated) {
+      throw new RequestError("Tile not found", 404);
+    }
+
+    return NextResponse.json(
+      { tile: updated },
+      { headers: { "X-Correlation-ID": correlationId } }
+    );
+  } catch (error) {
+    return errorResponse(error, correlationId);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import {
+  deleteTile,
+  updateTile,
+  type DashboardTileUpdate,
+} from "@/lib/dashboard-store";
+import { isRefreshInterval } from "@/lib/dashboard-layout";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Title, view and refresh interval only; the SQL and the rows it returned
+// are written by the refresh route alone
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const update: DashboardTileUpdate = {};
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== "string" || !body.title.trim()) {
+        return NextResponse.json(
+          { error: "Title is required" },
+          { status: 400 }
+        );
+      }
+      update.title = body.title;
+    }
+    if (body.view !== undefined) {
+      if (body.view !== "chart" && body.view !== "table") {
+        return NextResponse.json(
+          { error: "view must be chart or table" },
+          { status: 400 }
+        );
+      }
+      update.view = body.view;
+    }
+    if (body.refreshIntervalSec !== undefined) {
+      if (!isRefreshInterval(body.refreshIntervalSec)) {
+        return NextResponse.json(
+          { error: "Unsupported refresh interval" },
+          { status: 400 }
+        );
+      }
+      update.refreshIntervalSec = body.refreshIntervalSec;
+    }
+    const tile = await updateTile(user.id, id, update);
+    if (!tile) {
+      return NextResponse.json({ error: "Tile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ tile });
+  } catch (error) {
+    console.error("Tile update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update tile" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteTile(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Tile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Tile delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove tile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/server";
+import { createTile, listTiles } from "@/lib/dashboard-store";
+import { isRefreshInterval } from "@/lib/dashboard-layout";
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const tiles = await listTiles(user.id);
+    return NextResponse.json({ tiles });
+  } catch (error) {
+    console.error("Dashboard load error:", error);
+    return NextResponse.json(
+      { error: "Failed to load dashboard" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const {
+      title,
+      question,
+      sqlQuery,
+      view,
+      snapshot,
+      source,
+      refreshIntervalSec,
+    } = await request.json();
+
+    if (typeof question !== "string" || !question.trim()) {
+      return NextResponse.json(
+        { error: "A tile needs the question it answers" },
+        { status: 400 }
+      );
+    }
+    if (view !== "chart" && view !== "table") {
+      return NextResponse.json(
+        { error: "view must be chart or table" },
+        { status: 400 }
+      );
+    }
+    if (!snapshot || !Array.isArray(snapshot.results)) {
+      return NextResponse.json(
+        { error: "A tile needs a snapshot with results" },
+        { status: 400 }
+      );
+    }
+    if (
+      refreshIntervalSec !== undefined &&
+      !isRefreshInterval(refreshIntervalSec)
+    ) {
+      return NextResponse.json(
+        { error: "Unsupported refresh interval" },
+        { status: 400 }
+      );
+    }
+
+    const tile = await createTile(user.id, {
+      title: typeof title === "string" && title.trim() ? title : question,
+      question: question.trim(),
+      sqlQuery: typeof sqlQuery === "string" ? sqlQuery : undefined,
+      view,
+      snapshot: {
+        sql_query: snapshot.sql_query,
+        results: snapshot.results,
+        visualization: snapshot.visualization,
+        formatted_data: snapshot.formatted_data,
+        insights: snapshot.insights,
+      },
+      source:
+        typeof source?.conversationId === "string" &&
+        Number.isInteger(source?.messageId)
+          ? {
+              conversationId: source.conversationId,
+              messageId: source.messageId,
+            }
+          : undefined,
+      refreshIntervalSec,
+    });
+    return NextResponse.json({ tile }, { status: 201 });
+  } catch (error) {
+    console.error("Tile create error:", error);
+    return NextResponse.json({ error: "Failed to pin tile" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NDJSON_CONTENT_TYPE } from "@/lib/bi-stream";
+import { ConfigError, getMockBIConfig } from "@/lib/bi-config";
+import { answerQuestion } from "@/lib/mock-bi/fixtures";
+
+// Offline stand-in for the BI backend. Answers come from fixtures keyed by
+// question patterns, with configurable latency and error injection; see
+// lib/bi-config.ts for the MOCK_BI_* settings.
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function POST(request: NextRequest) {
+  let config;
+  try {
+    config = getMockBIConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error("Mock BI config error:", error.message);
+      return NextResponse.json(
+        { error: "Mock BI backend is misconfigured" },
+        { status: 500 }
+      );
+    }
+    throw error;
+  }
+
+  if (!config.enabled) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { question } = await request.json().catch(() => ({}));
+  if (typeof question !== "string" || !question.trim()) {
+    return NextResponse.json(
+      { detail: "question is required" },
+      { status: 422 }
+    );
+  }
+
+  const delay = (extra = 0) =>
+    sleep(config.latencyMs + Math.random() * config.jitterMs + extra);
+
+  if (Math.random() < config.errorRate) {
+    await delay();
+    return NextResponse.json(
+      { detail: "Mock backend: random failure" },
+      { status: config.errorStatus }
+    );
+  }
+
+  const answer = answerQuestion(question);
+  if (answer.kind === "error") {
+    await delay();
+    return NextResponse.json(answer.body, { status: answer.status });
+  }
+
+  const { response, extraLatencyMs } = answer;
+
+  if (!request.headers.get("accept")?.includes(NDJSON_CONTENT_TYPE)) {
+    await delay(extraLatencyMs);
+    return NextResponse.json(response);
+  }
+
+  // Emit the answer in the same phases the real backend streams
+  const phases: Record<string, unknown>[] = [
+    { status: "Generating SQL" },
+    { sql_query: response.sql_query },
+    { results: response.results },
+    {
+      visualization: response.visualization,
+      visualization_reason: response.visualization_reason,
+      formatted_data: response.formatted_data,
+    },
+    { insights: response.insights },
+  ];
+
+  // The proxy cancels the stream when the user stops the question
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      await delay(extraLatencyMs);
+      for (const phase of phases) {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(phase)}\n`));
+        await delay();
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+      console.info("Mock BI: question cancelled by the caller");
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+    },
+  });
+}
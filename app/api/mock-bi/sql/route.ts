@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConfigError, getMockBIConfig } from "@/lib/bi-config";
+import { runMockSQL } from "@/lib/mock-bi/fixtures";
+
+// Offline stand-in for the backend's SQL endpoint (BI_SQL_URL). It filters,
+// sorts and limits fixture rows; see runMockSQL for what it understands.
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function POST(request: NextRequest) {
+  let config;
+  try {
+    config = getMockBIConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error("Mock BI config error:", error.message);
+      return NextResponse.json(
+        { error: "Mock BI backend is misconfigured" },
+        { status: 500 }
+      );
+    }
+    throw error;
+  }
+
+  if (!config.enabled) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { sql_query } = await request.json().catch(() => ({}));
+  if (typeof sql_query !== "string" || !sql_query.trim()) {
+    return NextResponse.json(
+      { detail: "sql_query is required" },
+      { status: 422 }
+    );
+  }
+
+  await sleep(config.latencyMs + Math.random() * config.jitterMs);
+
+  if (Math.random() < config.errorRate) {
+    return NextResponse.json(
+      { detail: "Mock backend: random failure" },
+      { status: config.errorStatus }
+    );
+  }
+
+  const answer = runMockSQL(sql_query);
+  if (answer.kind === "error") {
+    return NextResponse.json(answer.body, { status: answer.status });
+  }
+  return NextResponse.json(answer.response);
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConfigError } from "@/lib/bi-config";
+import { getSessionUser } from "@/lib/auth/server";
+import { getTTSConfig, getTTSProvider } from "@/lib/tts/providers";
+import {
+  getVoiceSettings,
+  updateVoiceSettings,
+} from "@/lib/voice-settings-store";
+import type { VoiceOption } from "@/lib/voice-settings";
+
+// The signed-in user's voice settings, plus the voices of the default speech
+// provider to choose from (requests without a provider use that one)
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const settings = await getVoiceSettings(user.id);
+
+    let voices: VoiceOption[] = [];
+    try {
+      voices = getTTSProvider(getTTSConfig().provider).voices;
+    } catch (error) {
+      // Without a working provider there is nothing to choose from
+      if (!(error instanceof ConfigError)) throw error;
+    }
+
+    return NextResponse.json({ settings, voices });
+  } catch (error) {
+    console.error("Voice settings error:", error);
+    return NextResponse.json(
+      { error: "Failed to load voice settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: any subset of the settings; unknown or malformed fields are ignored
+export async function PUT(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const update = await request.json();
+    if (!update || typeof update !== "object" || Array.isArray(update)) {
+      return NextResponse.json(
+        { error: "Body must be a JSON object" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await updateVoiceSettings(user.id, update);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Voice settings update error:", error);
+    return NextResponse.json(
+      { error: "Failed to save voice settings" },
+      { status: 500 }
+    );
+  }
+}
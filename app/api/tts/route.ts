@@ -1,94 +1,315 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ConfigError } from "@/lib/bi-config";
+import { UsageLimitError } from "@/lib/usage-limits";
+import {
+  enforceUsageLimits,
+  getUsageLimitsConfig,
+  usageLimitResponse,
+} from "@/lib/usage-limiter";
+import { NDJSON_CONTENT_TYPE } from "@/lib/bi-stream";
+import {
+  cacheSpeech,
+  cacheWords,
+  getCachedSpeech,
+  getCachedWords,
+  ttsCacheKey,
+} from "@/lib/tts-cache";
+import {
+  audioDuration,
+  createWordAligner,
+  estimateWords,
+  type SpeechWord,
+  type TimedSpeechEvent,
+} from "@/lib/tts/alignment";
+import {
+  getTTSConfig,
+  getTTSProvider,
+  pickSettings,
+  type LanguageVoice,
+  type TTSConfig,
+} from "@/lib/tts/providers";
 
-// Simple in-memory cache for TTS responses
-const ttsCache = new Map<string, ArrayBuffer>();
-const MAX_CACHE_SIZE = 50; // Limit cache size
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// Voice and model ids as the providers name them
+const ID_PATTERN = /^[\w.:-]{1,100}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
 
+// Writes a `timestamps: true` response, one event per line (see
+// lib/tts/alignment.ts). Whatever `write` throws after the response has
+// started ends it with an error event.
+function timedSpeechResponse(
+  contentType: string,
+  headers: Record<string, string>,
+  write: (send: (event: TimedSpeechEvent) => void) => Promise<void>
+) {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: TimedSpeechEvent) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+
+      send({ type: "start", content_type: contentType });
+      try {
+        await write(send);
+        send({ type: "done" });
+      } catch (error) {
+        if (!cancelled) {
+          console.error("TTS Error:", error);
+          send({ type: "error", error: "Failed to generate speech" });
+        }
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: { ...headers, "Content-Type": NDJSON_CONTENT_TYPE },
+  });
+}
+
+const base64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+
+// Body: { text, provider?, voice_id?, model?, voice_settings?, language?,
+// timestamps? }. Everything but the text falls back to the deployment's
+// choice (see lib/tts/providers/index.ts); with a language, the voice and
+// model configured for that language win over the general defaults. With
+// `timestamps: true` the audio comes with word timings, as NDJSON.
 export async function POST(request: NextRequest) {
   try {
-    const { text, voice_id = "ZTWUZx6Q4pIcdl79Kctt" } = await request.json();
+    const {
+      text,
+      provider,
+      voice_id,
+      model,
+      voice_settings,
+      language,
+      timestamps,
+    } = await request.json();
 
-    if (!text) {
+    if (!text || typeof text !== "string") {
       return NextResponse.json({ error: "Text is required" }, { status: 400 });
     }
+    for (const [name, value] of Object.entries({ provider, voice_id, model })) {
+      if (
+        value !== undefined &&
+        (typeof value !== "string" || !ID_PATTERN.test(value))
+      ) {
+        return NextResponse.json(
+          { error: `${name} must be a short identifier` },
+          { status: 400 }
+        );
+      }
+    }
+    if (
+      language !== undefined &&
+      (typeof language !== "string" || !LANGUAGE_PATTERN.test(language))
+    ) {
+      return NextResponse.json(
+        { error: "language must be a two-letter ISO 639-1 code" },
+        { status: 400 }
+      );
+    }
+    if (
+      voice_settings !== undefined &&
+      (!voice_settings ||
+        typeof voice_settings !== "object" ||
+        Array.isArray(voice_settings))
+    ) {
+      return NextResponse.json(
+        { error: "voice_settings must be an object" },
+        { status: 400 }
+      );
+    }
 
-    // Create cache key
-    const cacheKey = `${voice_id}_${text.slice(0, 100)}`; // Use first 100 chars for key
+    if (timestamps !== undefined && typeof timestamps !== "boolean") {
+      return NextResponse.json(
+        { error: "timestamps must be a boolean" },
+        { status: 400 }
+      );
+    }
 
-    // Check cache first
-    if (ttsCache.has(cacheKey)) {
-      const cachedAudio = ttsCache.get(cacheKey)!;
-      return new NextResponse(cachedAudio, {
-        headers: {
-          "Content-Type": "audio/mpeg",
-          "Content-Length": cachedAudio.byteLength.toString(),
-          "Cache-Control": "public, max-age=300", // Cache for 5 minutes
-        },
-      });
+    const { maxTtsChars } = getUsageLimitsConfig();
+    if (text.length > maxTtsChars) {
+      throw new UsageLimitError(
+        `Text may be at most ${maxTtsChars} characters`,
+        "text_too_long"
+      );
     }
 
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    if (!apiKey) {
+    const config = getTTSConfig();
+    const providerId = provider?.toLowerCase() ?? config.provider;
+    if (!config.allowedProviders.includes(providerId)) {
       return NextResponse.json(
-        { error: "ElevenLabs API key not configured" },
-        { status: 500 }
+        {
+          error: `provider must be one of ${config.allowedProviders.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
       );
     }
 
-    // Generate speech using ElevenLabs API directly
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voice_id}`,
-      {
-        method: "POST",
+    const tts = getTTSProvider(providerId);
+    // Deployment overrides only apply to the provider they were written for
+    const deployment: Omit<TTSConfig, "provider" | "allowedProviders"> =
+      providerId === config.provider
+        ? config
+        : { voice: undefined, model: undefined, settings: {}, languages: {} };
+    const forLanguage: LanguageVoice = language
+      ? { ...tts.languages?.[language], ...deployment.languages[language] }
+      : {};
+    const speech = {
+      text,
+      language,
+      voice:
+        voice_id ?? forLanguage.voice ?? deployment.voice ?? tts.defaults.voice,
+      model:
+        model ?? forLanguage.model ?? deployment.model ?? tts.defaults.model,
+      settings: {
+        ...tts.defaults.settings,
+        ...pickSettings(deployment.settings, tts.settingKeys),
+        ...pickSettings(voice_settings ?? {}, tts.settingKeys),
+      },
+    };
+    const headers = {
+      "Content-Type": tts.contentType,
+      "Cache-Control": "public, max-age=300", // Cache for 5 minutes
+      "X-TTS-Provider": tts.id,
+    };
+
+    // Everything that changes the audio goes into the key
+    const cacheKey = ttsCacheKey({ provider: tts.id, ...speech });
+    // Only timings the provider reported are cached; estimates are cheap
+    const wordsKey = ttsCacheKey({ provider: tts.id, ...speech, words: true });
+    const estimate = (audio: Uint8Array): TimedSpeechEvent => ({
+      type: "words",
+      words: estimateWords(text, audioDuration(audio, tts.contentType)),
+      estimated: true,
+    });
+
+    // Check cache first
+    const cachedAudio = await getCachedSpeech(cacheKey);
+    if (cachedAudio && timestamps) {
+      return timedSpeechResponse(
+        tts.contentType,
+        { ...headers, "X-TTS-Cache": "hit" },
+        async (send) => {
+          send({ type: "audio", data: base64(cachedAudio) });
+          const words = await getCachedWords(wordsKey);
+          send(
+            words
+              ? { type: "words", words, estimated: false }
+              : estimate(cachedAudio)
+          );
+        }
+      );
+    }
+    if (cachedAudio) {
+      return new NextResponse(Buffer.from(cachedAudio), {
         headers: {
-          Accept: "audio/mpeg",
-          "Content-Type": "application/json",
-          "xi-api-key": apiKey,
+          ...headers,
+          "Content-Length": cachedAudio.byteLength.toString(),
+          "X-TTS-Cache": "hit",
         },
-        body: JSON.stringify({
-          text,
-          model_id: "eleven_turbo_v2", // Faster model
-          voice_settings: {
-            stability: 0.5, // Lower for faster generation
-            similarity_boost: 0.8,
-            style: 0.0, // Remove style for speed
-            use_speaker_boost: false, // Disable for speed
-          },
-          optimize_streaming_latency: 4, // Maximum optimization for streaming
-          output_format: "mp3_22050_32", // Lower quality for speed
-        }),
-      }
-    );
+      });
+    }
+
+    // Cached audio is free, so only fresh synthesis counts against limits
+    await enforceUsageLimits(request, "tts", text.length);
 
-    if (!response.ok) {
-      throw new Error(`ElevenLabs API error: ${response.status}`);
+    if (timestamps && tts.synthesizeWithTimestamps) {
+      const chunks = await tts.synthesizeWithTimestamps({
+        ...speech,
+        signal: request.signal,
+      });
+
+      return timedSpeechResponse(
+        tts.contentType,
+        { ...headers, "X-TTS-Cache": "miss" },
+        async (send) => {
+          const reader = chunks.getReader();
+          const aligner = createWordAligner();
+          const audio: Uint8Array[] = [];
+          const words: SpeechWord[] = [];
+          const sendWords = (done: SpeechWord[]) => {
+            if (done.length === 0) return;
+            words.push(...done);
+            send({ type: "words", words: done, estimated: false });
+          };
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            audio.push(value.audio);
+            send({ type: "audio", data: base64(value.audio) });
+            sendWords(aligner.push(value.characters));
+          }
+          sendWords(aligner.flush());
+
+          await cacheSpeech(cacheKey, Buffer.concat(audio));
+          await cacheWords(wordsKey, words);
+        }
+      );
     }
 
-    const audioBuffer = await response.arrayBuffer();
+    const audio = await tts.synthesize({ ...speech, signal: request.signal });
 
-    // Cache the response if cache isn't too large
-    if (ttsCache.size < MAX_CACHE_SIZE) {
-      ttsCache.set(cacheKey, audioBuffer);
+    // Without timings from the provider, spread the words over the audio
+    // once all of it is there
+    if (timestamps) {
+      return timedSpeechResponse(
+        tts.contentType,
+        { ...headers, "X-TTS-Cache": "miss" },
+        async (send) => {
+          const reader = audio.getReader();
+          const chunks: Uint8Array[] = [];
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            send({ type: "audio", data: base64(value) });
+          }
 
-      // Set TTL cleanup
-      setTimeout(() => {
-        ttsCache.delete(cacheKey);
-      }, CACHE_TTL);
+          const complete = Buffer.concat(chunks);
+          send(estimate(complete));
+          await cacheSpeech(cacheKey, complete);
+        }
+      );
     }
 
-    // Return the audio as a response
-    return new NextResponse(audioBuffer, {
-      headers: {
-        "Content-Type": "audio/mpeg",
-        "Content-Length": audioBuffer.byteLength.toString(),
-        "Cache-Control": "public, max-age=300", // Cache for 5 minutes
-      },
+    // Forward chunks as they arrive and cache the complete audio once the
+    // stream has finished without errors
+    const [clientStream, cacheStream] = audio.tee();
+    new Response(cacheStream)
+      .arrayBuffer()
+      .then((audioBuffer) => cacheSpeech(cacheKey, new Uint8Array(audioBuffer)))
+      .catch(() => {
+        // Interrupted streams are simply not cached
+      });
+
+    return new NextResponse(clientStream, {
+      headers: { ...headers, "X-TTS-Cache": "miss" },
     });
   } catch (error) {
+    if (error instanceof UsageLimitError) {
+      return usageLimitResponse(error);
+    }
+
     console.error("TTS Error:", error);
     return NextResponse.json(
-      { error: "Failed to generate speech" },
+      {
+        error:
+          error instanceof ConfigError
+            ? "Speech provider is not configured"
+            : "Failed to generate speech",
+      },
       { status: 500 }
     );
   }
@@ -1,12 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { ConfigError } from "@/lib/bi-config";
+import { getSTTConfig, getSTTProvider } from "@/lib/stt/providers";
+import { UsageLimitError } from "@/lib/usage-limits";
+import {
+  enforceUsageLimits,
+  getUsageLimitsConfig,
+  usageLimitResponse,
+} from "@/lib/usage-limiter";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Browser recordings (Opus in WebM/Ogg) stay well under 128 kbit/s, so a
+// file can't be shorter than its size at that rate. Used to charge the
+// quota when the declared duration is missing or implausibly low.
+const MAX_AUDIO_BYTES_PER_SEC = 16_000;
 
 export async function POST(request: NextRequest) {
   try {
+    const { maxAudioBytes, maxAudioSec } = getUsageLimitsConfig();
+
+    // Multipart overhead is small; reject obviously oversized uploads before
+    // reading them
+    const declaredSize = Number(request.headers.get("content-length"));
+    if (Number.isFinite(declaredSize) && declaredSize > maxAudioBytes + 4096) {
+      throw new UsageLimitError(
+        `Recordings may be at most ${maxAudioBytes} bytes`,
+        "audio_too_large"
+      );
+    }
+
     const formData = await request.formData();
     const audioFile = formData.get("audio") as File;
 
@@ -16,24 +36,54 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (audioFile.size > maxAudioBytes) {
+      throw new UsageLimitError(
+        `Recordings may be at most ${maxAudioBytes} bytes`,
+        "audio_too_large"
+      );
+    }
 
-    // Convert the audio file to the format expected by OpenAI
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: "whisper-1",
-      language: "en", // You can make this dynamic or auto-detect
+    // Seconds as measured by the recorder in the browser
+    const declaredDuration = Number(formData.get("duration"));
+    const durationSec = Math.max(
+      Number.isFinite(declaredDuration) ? Math.ceil(declaredDuration) : 0,
+      Math.ceil(audioFile.size / MAX_AUDIO_BYTES_PER_SEC),
+      1
+    );
+    if (durationSec > maxAudioSec) {
+      throw new UsageLimitError(
+        `Recordings may be at most ${maxAudioSec} seconds long`,
+        "audio_too_long"
+      );
+    }
+
+    await enforceUsageLimits(request, "whisper", durationSec);
+
+    const provider = getSTTProvider();
+    const transcript = await provider.transcribe({
+      audio: audioFile,
+      language: getSTTConfig().language,
+      signal: request.signal,
     });
 
     return NextResponse.json({
-      text: transcription.text,
+      ...transcript,
+      provider: provider.id,
       success: true,
     });
   } catch (error) {
+    if (error instanceof UsageLimitError) {
+      return usageLimitResponse(error);
+    }
+
     console.error("Whisper API error:", error);
 
     return NextResponse.json(
       {
-        error: "Failed to transcribe audio",
+        error:
+          error instanceof ConfigError
+            ? "Transcription provider is not configured"
+            : "Failed to transcribe audio",
         details: error instanceof Error ? error.message : "Unknown error",
       },
       { status: 500 }
@@ -0,0 +1,17 @@
+import { AppShell } from "@/components/app-shell";
+import { Chatbox } from "@/components/chatbox";
+
+export default async function ChatPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <AppShell>
+      {/* Keyed so switching conversations starts from a clean chat state */}
+      <Chatbox key={id} conversationId={id} />
+    </AppShell>
+  );
+}
@@ -0,0 +1,10 @@
+import { AppShell } from "@/components/app-shell";
+import { Dashboard } from "@/components/dashboard";
+
+export default function DashboardPage() {
+  return (
+    <AppShell>
+      <Dashboard />
+    </AppShell>
+  );
+}
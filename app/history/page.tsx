@@ -0,0 +1,10 @@
+import { AppShell } from "@/components/app-shell";
+import { ConversationHistory } from "@/components/conversation-history";
+
+export default function HistoryPage() {
+  return (
+    <AppShell>
+      <ConversationHistory />
+    </AppShell>
+  );
+}
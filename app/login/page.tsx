@@ -0,0 +1,32 @@
+import { redirect } from "next/navigation";
+import { LoginForm } from "@/components/login-form";
+import { getAuthProvider } from "@/lib/auth/providers";
+import { getSessionUser } from "@/lib/auth/server";
+
+const APP_ORIGIN = "http://app.invalid";
+
+// Only same-site paths, so the form can't be used as an open redirect.
+// Resolved the way the browser will, which reads "/\evil.com" as
+// "//evil.com", and anything that leaves the site falls back to "/".
+function safeNext(next: string | string[] | undefined): string {
+  if (typeof next !== "string" || !next.startsWith("/")) return "/";
+  try {
+    const url = new URL(next, APP_ORIGIN);
+    return url.origin === APP_ORIGIN
+      ? `${url.pathname}${url.search}${url.hash}`
+      : "/";
+  } catch {
+    return "/";
+  }
+}
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string | string[] }>;
+}) {
+  const next = safeNext((await searchParams).next);
+  if (await getSessionUser()) redirect(next);
+
+  return <LoginForm next={next} providerLabel={getAuthProvider().label} />;
+}
@@ -0,0 +1,10 @@
+import { AppShell } from "@/components/app-shell";
+import { VoiceSettingsPanel } from "@/components/voice-settings-panel";
+
+export default function SettingsPage() {
+  return (
+    <AppShell>
+      <VoiceSettingsPanel />
+    </AppShell>
+  );
+}
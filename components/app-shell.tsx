@@ -0,0 +1,21 @@
+import { Sidebar } from "@/components/sidebar";
+import { SessionProvider } from "@/components/session-provider";
+import { getSessionUser } from "@/lib/auth/server";
+
+export async function AppShell({ children }: { children: React.ReactNode }) {
+  const user = await getSessionUser();
+
+  return (
+    <SessionProvider user={user}>
+      <div className="h-screen flex overflow-hidden">
+        {/* Sidebar - 20% width */}
+        <div className="w-[20%] border-r border-border overflow-hidden">
+          <Sidebar />
+        </div>
+
+        {/* Main Content Area - 80% width */}
+        <div className="w-[80%] overflow-hidden">{children}</div>
+      </div>
+    </SessionProvider>
+  );
+}
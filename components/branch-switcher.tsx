@@ -0,0 +1,55 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Message } from "@/lib/types";
+
+type BranchSwitcherProps = {
+  // The message on screen and its alternatives, oldest first
+  siblings: Message[];
+  currentId: number;
+  onSelect: (id: number) => void;
+  disabled?: boolean;
+};
+
+// Pages through the edits of a question or the regenerations of an answer
+// (see lib/conversation-branches.ts). Renders nothing without alternatives.
+export function BranchSwitcher({
+  siblings,
+  currentId,
+  onSelect,
+  disabled = false,
+}: BranchSwitcherProps) {
+  if (siblings.length < 2) return null;
+
+  const index = siblings.findIndex((message) => message.id === currentId);
+  const buttonClass = "p-0 h-5 w-5 text-gray-500 hover:text-gray-800";
+
+  return (
+    <div className="flex items-center gap-0.5" style={{ color: "#898d8d" }}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={buttonClass}
+        onClick={() => onSelect(siblings[index - 1].id)}
+        disabled={disabled || index <= 0}
+        title="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="text-xs tabular-nums">
+        {index + 1}/{siblings.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={buttonClass}
+        onClick={() => onSelect(siblings[index + 1].id)}
+        disabled={disabled || index >= siblings.length - 1}
+        title="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
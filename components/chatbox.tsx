@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import axios from "axios";
 import ReactMarkdown from "react-markdown";
 import Image from "next/image";
@@ -9,33 +9,91 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send, Mic, Play, Download, Volume2, Pause } from "lucide-react";
-
-type APIResponse = {
-  sql_query?: string;
-  results?: Array<Record<string, string | number>>;
-  visualization?: string;
-  visualization_reason?: string;
-  formatted_data?: {
-    image_base64?: string;
-  };
-  insights?: string;
-  preGeneratedAudioUrl?: string;
-};
-
-type Message = {
-  id: number;
-  content: string;
-  sender: "user" | "assistant";
-  timestamp: string;
-  isTyping?: boolean;
-  apiData?: APIResponse;
-  audioData?: {
-    audioBlob: Blob;
-    audioUrl: string;
-    duration?: number;
-  };
-};
+import {
+  Send,
+  Mic,
+  Play,
+  Volume2,
+  Pause,
+  Headphones,
+  Square,
+  Ban,
+  Pencil,
+  RefreshCw,
+} from "lucide-react";
+import { ExportButtons } from "@/components/export-buttons";
+import { ResultsChart } from "@/components/results-chart";
+import { ResultsTable } from "@/components/results-table";
+import { SQLPanel } from "@/components/sql-panel";
+import { PinButton } from "@/components/pin-button";
+import { UserAvatar } from "@/components/user-avatar";
+import { UsageLimitBanner } from "@/components/usage-limit-banner";
+import { NarrationControls } from "@/components/narration-controls";
+import { BranchSwitcher } from "@/components/branch-switcher";
+import { MessageEditor } from "@/components/message-editor";
+import type { PinRequest } from "@/lib/dashboard-api";
+import { describeBIError, rerunSQL } from "@/lib/bi-api";
+import { isSQLGuardCode, sqlGuardExplanations } from "@/lib/sql-guard";
+import {
+  UsageLimitError,
+  explainUsageLimit,
+  toUsageLimitError,
+} from "@/lib/usage-limits";
+import {
+  createConversation,
+  fetchConversation,
+  saveMessage,
+  saveTranscript,
+} from "@/lib/conversation-api";
+import {
+  requestContext,
+  type ConversationContext,
+} from "@/lib/conversation-context";
+import {
+  activeBranch,
+  branchTo,
+  buildConversationTree,
+  siblingsOf,
+} from "@/lib/conversation-branches";
+import {
+  NDJSON_CONTENT_TYPE,
+  applyStreamEvent,
+  phaseLabels,
+  readLines,
+  type QueryStreamEvent,
+} from "@/lib/bi-stream";
+import {
+  audioUrlFromResponse,
+  fadeOutAudio,
+  timedAudioUrlFromResponse,
+} from "@/lib/tts-stream";
+import {
+  createNarrationTrack,
+  followNarration,
+  sentenceAt,
+  sentenceTime,
+  type NarrationTrack,
+} from "@/lib/narration-highlight";
+import {
+  createNarrationQueue,
+  loadPart,
+  prefetchParts,
+  queuePosition,
+  queueProgress,
+  releaseQueue,
+  type LoadPart,
+  type NarrationQueue,
+  type QueueProgress,
+} from "@/lib/narration-queue";
+import { detectVoiceActivity } from "@/lib/voice-activity";
+import { detectLanguage, textDirection } from "@/lib/language";
+import { fetchVoiceSettings } from "@/lib/settings-api";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  applyPlaybackSettings,
+  type VoiceSettings,
+} from "@/lib/voice-settings";
+import type { APIResponse, Message } from "@/lib/types";
 
 const sampleMessages: Message[] = [
   {
@@ -54,35 +112,81 @@ const sampleMessages: Message[] = [
   },
 ];
 
-export function Chatbox() {
+// Chat reply for an answer whose SQL the proxy's read-only guard blocked
+const explainRejection = ({
+  code,
+  message,
+}: NonNullable<APIResponse["sql_rejection"]>) =>
+  `I can't show this answer. ${sqlGuardExplanations[code]}\n\nThe data server's query was blocked by the read-only check (${message}). Try rephrasing the question, or open the SQL below, fix it and run it again.`;
+
+// Where an interrupted narration of the whole insights stopped, in seconds
+type ResumePoint = { time: number };
+
+// What is playing: `part` is the index in the message's narration queue,
+// null for audio that isn't part of one
+type Playback = {
+  audio: HTMLAudioElement;
+  messageId?: number;
+  part: number | null;
+  track?: NarrationTrack;
+};
+
+type QueryOptions = {
+  // The conversation so far, ending with the message the question follows
+  history: Message[];
+  onUpdate?: (data: APIResponse) => void;
+  // What transcription detected for spoken questions; typed ones are
+  // classified by script
+  language?: string | null;
+  // Resolves the query with null once aborted
+  signal?: AbortSignal;
+};
+
+type ChatboxProps = {
+  conversationId?: string;
+};
+
+export function Chatbox({ conversationId }: ChatboxProps) {
   const [messages, setMessages] = useState<Message[]>(sampleMessages);
   const [newMessage, setNewMessage] = useState("");
+  // The message whose branch is on screen; null shows the latest one
+  const [selectedMessageId, setSelectedMessageId] = useState<number | null>(
+    null
+  );
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  // Hands-free: recordings end on silence and the mic reopens after the
+  // answer has been read out
+  const [isHandsFree, setIsHandsFree] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [processingStage, setProcessingStage] = useState<string>("");
   const [audioLevels, setAudioLevels] = useState<number[]>([
     2, 4, 3, 8, 6, 4, 7, 3, 5, 9, 2, 6,
   ]);
   const [loadingMessages, setLoadingMessages] = useState<string[]>([]);
-  const [currentMessageIndex, setCurrentMessageIndex] = useState<number>(0);
+  // Most recent rate limit or quota the server reported
+  const [usageLimit, setUsageLimit] = useState<{
+    error: UsageLimitError;
+    until?: number;
+  } | null>(null);
+  const currentMessageIndex = loadingMessages.length - 1;
 
   // TTS state
-  const isTTSEnabled = true; // Always enabled since controls are in insights
-  const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(
-    null
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(
+    DEFAULT_VOICE_SETTINGS
   );
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentSpeakingMessageId, setCurrentSpeakingMessageId] = useState<
     number | null
   >(null);
-  const [ttsTextParts, setTtsTextParts] = useState<{
-    [messageId: number]: {
-      currentPart: number;
-      parts: string[];
-      fullText: string;
-    };
-  }>({});
+  // Where each answer's narration was cut short by a barge-in
+  const [resumePoints, setResumePoints] = useState<Record<number, ResumePoint>>(
+    {}
+  );
+  const [narrationProgress, setNarrationProgress] = useState<
+    Record<number, QueueProgress>
+  >({});
 
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -92,6 +196,38 @@ export function Chatbox() {
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const conversationIdRef = useRef<string | null>(conversationId ?? null);
+  const handsFreeRef = useRef(false);
+  const stopVoiceActivityRef = useRef<(() => void) | null>(null);
+  const recordingStartedAtRef = useRef(0);
+  // Runs once the current answer's audio ends, is stopped or fails
+  const afterPlaybackRef = useRef<(() => void) | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const ttsRequestsRef = useRef(new Set<AbortController>());
+  // Word timings of pre-generated narration, by its object URL
+  const narrationTracksRef = useRef(new Map<string, NarrationTrack>());
+  const stopHighlightRef = useRef<(() => void) | null>(null);
+  // Rendered insights of each message, for following the narration
+  const insightsRefs = useRef(new Map<number, HTMLDivElement>());
+  const queuesRef = useRef(new Map<number, NarrationQueue>());
+  // The queue whose next part is being fetched to play
+  const queuePlayRef = useRef<{ queue: NarrationQueue } | null>(null);
+  const stopBargeInRef = useRef<(() => void) | null>(null);
+  const conversationPromiseRef = useRef<Promise<string> | null>(null);
+  // Aborts the question being answered; see cancelQuestion
+  const questionControllerRef = useRef<AbortController | null>(null);
+
+  const tree = useMemo(() => buildConversationTree(messages), [messages]);
+  const branch = useMemo(
+    () => activeBranch(tree, selectedMessageId),
+    [tree, selectedMessageId]
+  );
+  // New questions follow the branch on screen; recordings finish in
+  // callbacks set up renders earlier, so they read it from here
+  const activeBranchRef = useRef(branch);
+  useEffect(() => {
+    activeBranchRef.current = branch;
+  });
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -101,8 +237,57 @@ export function Chatbox() {
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    fetchVoiceSettings()
+      .then(({ settings }) => setVoiceSettings(settings))
+      .catch((error) => {
+        // The defaults are a reasonable fallback
+        console.error("Error loading voice settings:", error);
+      });
+  }, []);
+
+  // Reopen a stored conversation
+  useEffect(() => {
+    if (!conversationId) return;
+
+    let cancelled = false;
+    conversationIdRef.current = conversationId;
+    setSelectedMessageId(null);
+
+    fetchConversation(conversationId)
+      .then((conversation) => {
+        if (!cancelled) {
+          setMessages(conversation.messages);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading conversation:", error);
+        if (!cancelled) {
+          setMessages([
+            ...sampleMessages,
+            {
+              id: sampleMessages.length + 1,
+              content:
+                "I couldn't load this conversation. It may have been deleted.",
+              sender: "assistant",
+              timestamp: new Date().toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              }),
+            },
+          ]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
   // Cleanup effect
   useEffect(() => {
+    const ttsRequests = ttsRequestsRef.current;
+    const queues = queuesRef.current;
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
@@ -116,329 +301,658 @@ export function Chatbox() {
       if (recordingIntervalRef.current) {
         clearInterval(recordingIntervalRef.current);
       }
+      stopVoiceActivityRef.current?.();
+      stopBargeInRef.current?.();
+      stopHighlightRef.current?.();
+      questionControllerRef.current?.abort();
       // Cleanup TTS audio
-      if (currentAudio) {
-        currentAudio.pause();
-        currentAudio.src = "";
-      }
+      ttsRequests.forEach((controller) => controller.abort());
+      playbackRef.current?.audio.pause();
+      queues.forEach(releaseQueue);
     };
-  }, [currentAudio]);
+  }, []);
 
-  // TTS Functionality
+  // Conversation persistence
 
-  const speakText = async (text: string, messageId?: number) => {
-    if (!isTTSEnabled) return;
+  // Create the stored conversation lazily on the first message, seeded with
+  // the welcome messages so a reopened chat looks the same as a fresh one.
+  const ensureConversation = (): Promise<string> => {
+    if (conversationIdRef.current) {
+      return Promise.resolve(conversationIdRef.current);
+    }
 
-    try {
-      // Stop any currently playing audio
-      if (currentAudio) {
-        currentAudio.pause();
-        currentAudio.src = "";
-      }
+    if (!conversationPromiseRef.current) {
+      conversationPromiseRef.current = createConversation(sampleMessages)
+        .then((conversation) => {
+          conversationIdRef.current = conversation.id;
+          // Give the chat a shareable URL without remounting the page
+          window.history.replaceState(null, "", `/chat/${conversation.id}`);
+          return conversation.id;
+        })
+        .catch((error) => {
+          conversationPromiseRef.current = null;
+          throw error;
+        });
+    }
 
-      // Set loading state immediately
-      setIsPlaying(true);
-      setCurrentSpeakingMessageId(messageId || null);
+    return conversationPromiseRef.current;
+  };
 
-      // Clean markdown formatting for better TTS
-      const cleanedText = cleanMarkdownForTTS(text);
+  // Save a message and take its id from the store. Local-only fields such as
+  // recorded blobs and pre-generated audio are kept on the returned message.
+  const persistMessage = async (
+    message: Omit<Message, "id">
+  ): Promise<Message> => {
+    try {
+      const id = await ensureConversation();
+      const stored = await saveMessage(id, message);
+      return { ...message, id: stored.id };
+    } catch (error) {
+      console.error("Error saving message:", error);
+      // Keep the chat usable even if the store is unavailable
+      return { ...message, id: Date.now() };
+    }
+  };
 
-      const response = await fetch("/api/tts", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ text: cleanedText }),
-      });
+  // TTS Functionality
 
-      if (!response.ok) {
-        throw new Error("TTS request failed");
-      }
+  // Everything that can be speaking goes through here, so a barge-in or a
+  // new playback always finds (and stops) the one that's current.
+  // Let go of audio that is no longer current. Parts of a narration queue
+  // are only paused, so the queue can continue from there.
+  const releaseAudio = ({ audio, messageId, part }: Playback) => {
+    audio.pause();
+    const queue = messageId ? queuesRef.current.get(messageId) : undefined;
+    if (part !== null && queue?.parts[part]?.audio === audio) {
+      if (queue.current === part) queue.time = audio.currentTime;
+      return;
+    }
+    audio.src = "";
+  };
 
-      const audioBlob = await response.blob();
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audio = new Audio();
+  // With a track, the insights of the message highlight what is being read
+  const startPlayback = (
+    audio: HTMLAudioElement,
+    messageId?: number,
+    part: number | null = null,
+    track?: NarrationTrack
+  ) => {
+    const previous = playbackRef.current;
+    if (previous && previous.audio !== audio) releaseAudio(previous);
+    queuePlayRef.current = null;
+    playbackRef.current = { audio, messageId, part, track };
+    stopHighlightRef.current?.();
+    stopHighlightRef.current =
+      track && messageId
+        ? followNarration(
+            audio,
+            track,
+            () => insightsRefs.current.get(messageId) ?? null
+          )
+        : null;
+    setIsPlaying(true);
+    setCurrentSpeakingMessageId(messageId || null);
+    if (messageId) {
+      // Playing this message again supersedes where it was interrupted
+      setResumePoints((prev) => {
+        if (!(messageId in prev)) return prev;
+        const next = { ...prev };
+        delete next[messageId];
+        return next;
+      });
+    }
+  };
 
-      // Set audio properties for faster playback
-      audio.preload = "auto";
-      audio.volume = 0.8;
+  // Only the current playback may reset the state; events from audio that
+  // was already replaced are ignored
+  const endPlayback = (audio: HTMLAudioElement) => {
+    if (playbackRef.current?.audio !== audio) return;
+    playbackRef.current = null;
+    stopHighlightRef.current?.();
+    stopHighlightRef.current = null;
+    setIsPlaying(false);
+    setCurrentSpeakingMessageId(null);
+  };
 
-      setCurrentAudio(audio);
+  // Speech requests barge-in may have to cancel, in flight or still
+  // streaming
+  const trackTTSRequest = () => {
+    const controller = new AbortController();
+    ttsRequestsRef.current.add(controller);
+    return controller;
+  };
 
-      // Setup event handlers before setting src
-      audio.oncanplaythrough = () => {
-        // Audio is ready, play immediately
-        audio.play().catch(console.error);
-      };
+  // `language` is a fallback for text whose script doesn't tell. With a
+  // track, the word timings are requested too and collected into it.
+  const requestSpeech = async (
+    text: string,
+    controller: AbortController,
+    language?: string | null,
+    track?: NarrationTrack
+  ) => {
+    const response = await fetch("/api/tts", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text,
+        voice_id: voiceSettings.voice ?? undefined,
+        language: detectLanguage(text) ?? language ?? undefined,
+        timestamps: track ? true : undefined,
+      }),
+      signal: controller.signal,
+    });
 
-      audio.onended = () => {
-        setIsPlaying(false);
-        setCurrentAudio(null);
-        setCurrentSpeakingMessageId(null);
-        URL.revokeObjectURL(audioUrl);
-      };
+    if (!response.ok) {
+      await checkUsageLimit(response);
+      throw new Error("TTS request failed");
+    }
 
-      audio.onerror = () => {
-        setIsPlaying(false);
-        setCurrentAudio(null);
-        setCurrentSpeakingMessageId(null);
-        URL.revokeObjectURL(audioUrl);
-      };
+    // Starts playing with the first chunk rather than the whole file
+    if (track) {
+      return timedAudioUrlFromResponse(response, (words) =>
+        track.words.push(...words)
+      );
+    }
+    return audioUrlFromResponse(response);
+  };
 
-      // Set src last to trigger loading
-      audio.src = audioUrl;
-    } catch (error) {
-      console.error("TTS Error:", error);
+  // Barge-in: the user is about to speak, so fade out whatever is playing,
+  // cancel speech that hasn't started yet and remember where an answer's
+  // narration stopped so it can be resumed
+  const interruptSpeech = () => {
+    ttsRequestsRef.current.forEach((controller) => controller.abort());
+    ttsRequestsRef.current.clear();
+    // Don't reopen the mic for an answer nobody is listening to anymore
+    afterPlaybackRef.current = null;
+    queuePlayRef.current = null;
+    stopBargeInWatch();
+
+    const playback = playbackRef.current;
+    if (!playback) {
       setIsPlaying(false);
-      setCurrentAudio(null);
       setCurrentSpeakingMessageId(null);
+      return;
+    }
+
+    // Queues keep their own position
+    const { audio, messageId, part } = playback;
+    if (messageId && part === null && audio.currentTime > 0 && !audio.ended) {
+      setResumePoints((prev) => ({
+        ...prev,
+        [messageId]: { time: audio.currentTime },
+      }));
     }
+    endPlayback(audio);
+    fadeOutAudio(audio).then(() => releaseAudio(playback));
   };
 
-  // Line-by-line TTS function - one line at a time
-  const speakTextChunked = async (
-    text: string,
-    messageId?: number,
-    startFromPart: number = 0
-  ) => {
-    if (!isTTSEnabled) return;
+  // With hands-free on, listen while an answer is read out: as soon as the
+  // user speaks the narration stops and the recording starts, on the same
+  // microphone stream so the start of the question isn't lost
+  const watchForBargeIn = async () => {
+    stopBargeInWatch();
+    // The watch can be stopped while the microphone is still opening
+    let cancelled = false;
+    stopBargeInRef.current = () => {
+      cancelled = true;
+    };
 
+    let stream: MediaStream;
     try {
-      // Stop any currently playing audio
-      if (currentAudio) {
-        currentAudio.pause();
-        currentAudio.src = "";
-      }
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      console.error("Error opening the microphone for barge-in:", error);
+      return;
+    }
+    if (cancelled) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 256;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    let handedOver = false;
+    const stopDetection = detectVoiceActivity(analyser, {
+      // Narration leaking into the mic shouldn't count as speech
+      minSpeechMs: 400,
+      onSpeechStart: () => {
+        handedOver = true;
+        stopBargeInWatch();
+        recordingActionsRef.current.start(stream);
+      },
+    });
+    stopBargeInRef.current = () => {
+      stopDetection();
+      context.close();
+      if (!handedOver) stream.getTracks().forEach((track) => track.stop());
+    };
+  };
 
+  const stopBargeInWatch = () => {
+    stopBargeInRef.current?.();
+    stopBargeInRef.current = null;
+  };
+
+  const isRecordingNow = () => mediaRecorderRef.current?.state === "recording";
+
+  // `startAt` resumes an interrupted narration at that many seconds in
+  const speakText = async (text: string, messageId?: number, startAt = 0) => {
+    const controller = trackTTSRequest();
+    try {
       // Set loading state immediately
       setIsPlaying(true);
       setCurrentSpeakingMessageId(messageId || null);
 
       // Clean markdown formatting for better TTS
       const cleanedText = cleanMarkdownForTTS(text);
-
-      // Split text into individual lines, filtering out empty lines
-      const lines = cleanedText
-        .split("\n")
-        .map((line) => line.trim())
-        .filter((line) => line.length > 0);
-
-      // If no lines found, split by sentences as fallback
-      if (lines.length === 0 || lines.length === 1) {
-        const sentences = cleanedText
-          .split(/[.!?]+/)
-          .filter((s) => s.trim().length > 10);
-        if (sentences.length > 1) {
-          lines.length = 0;
-          lines.push(...sentences.map((s) => s.trim() + "."));
-        }
-      }
-
-      // Store the lines for this message
-      if (messageId) {
-        setTtsTextParts((prev) => ({
-          ...prev,
-          [messageId]: {
-            currentPart: startFromPart,
-            parts: lines,
-            fullText: cleanedText,
-          },
-        }));
-      }
-
-      // Get the current line to speak
-      const lineToSpeak = lines[startFromPart] || cleanedText;
-
-      console.log(
-        `Speaking line ${startFromPart + 1}/${lines.length}:`,
-        lineToSpeak
+      const track = messageId ? createNarrationTrack(cleanedText) : undefined;
+      const audioUrl = await requestSpeech(
+        cleanedText,
+        controller,
+        undefined,
+        track
       );
-
-      const response = await fetch("/api/tts", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ text: lineToSpeak }),
-      });
-
-      if (!response.ok) {
-        throw new Error("TTS request failed");
-      }
-
-      const audioBlob = await response.blob();
-      const audioUrl = URL.createObjectURL(audioBlob);
       const audio = new Audio();
 
       // Set audio properties for faster playback
       audio.preload = "auto";
-      audio.volume = 0.8;
-
-      setCurrentAudio(audio);
 
-      // Setup event handlers before setting src
-      audio.oncanplaythrough = () => {
-        // Audio is ready, play immediately
-        audio.play().catch(console.error);
-      };
+      startPlayback(audio, messageId, null, track);
 
       audio.onended = () => {
-        console.log(`Line ${startFromPart + 1}/${lines.length} completed`);
-        setIsPlaying(false);
-        setCurrentAudio(null);
-        setCurrentSpeakingMessageId(null);
+        endPlayback(audio);
+        ttsRequestsRef.current.delete(controller);
         URL.revokeObjectURL(audioUrl);
       };
 
       audio.onerror = () => {
-        console.error("Audio playback error for line:", lineToSpeak);
-        setIsPlaying(false);
-        setCurrentAudio(null);
-        setCurrentSpeakingMessageId(null);
+        endPlayback(audio);
+        ttsRequestsRef.current.delete(controller);
         URL.revokeObjectURL(audioUrl);
       };
 
-      // Set src last to trigger loading
+      // Set src last to trigger loading; playback begins once enough of
+      // the stream has arrived
       audio.src = audioUrl;
+      applyPlaybackSettings(audio, voiceSettings);
+      if (startAt > 0) audio.currentTime = startAt;
+      audio.play().catch(console.error);
     } catch (error) {
-      console.error("Line-by-line TTS Error:", error);
-      setIsPlaying(false);
-      setCurrentAudio(null);
-      setCurrentSpeakingMessageId(null);
+      ttsRequestsRef.current.delete(controller);
+      if (controller.signal.aborted) return;
+      console.error("TTS Error:", error);
+      if (!playbackRef.current) {
+        setIsPlaying(false);
+        setCurrentSpeakingMessageId(null);
+      }
+    }
+  };
+
+  // The listen button reads insights through a queue, sentence by
+  // sentence (see lib/narration-queue.ts). Each message keeps its queue,
+  // so switching to another answer and back continues where it stopped.
+
+  const loadQueuePart: LoadPart = (part, controller) => {
+    ttsRequestsRef.current.add(controller);
+    return requestSpeech(part.text, controller, undefined, part.track).finally(
+      () => ttsRequestsRef.current.delete(controller)
+    );
+  };
+
+  const showQueueProgress = (queue: NarrationQueue) => {
+    if (queue.released) return;
+    setNarrationProgress((prev) => ({
+      ...prev,
+      [queue.messageId]: queueProgress(queue),
+    }));
+  };
+
+  const getQueue = (message: Message) => {
+    let queue = queuesRef.current.get(message.id);
+    if (!queue) {
+      queue = createNarrationQueue(
+        message.id,
+        cleanMarkdownForTTS(message.apiData?.insights ?? "")
+      );
+      queuesRef.current.set(message.id, queue);
+    }
+    return queue;
+  };
+
+  // Read from the queue's position on, one part after the other
+  const playQueue = async (queue: NarrationQueue) => {
+    const request = { queue };
+    queuePlayRef.current = request;
+    const index = queue.current;
+    const part = queue.parts[index];
+    const onUpdate = () => showQueueProgress(queue);
+
+    // Set loading state immediately
+    setIsPlaying(true);
+    setCurrentSpeakingMessageId(queue.messageId);
+    onUpdate();
+
+    prefetchParts(queue, loadQueuePart, onUpdate);
+    const audio = await loadPart(queue, part, loadQueuePart, onUpdate);
+
+    // Stopped, or something else started, while the part was fetched
+    if (queuePlayRef.current !== request) return;
+    if (!audio) {
+      queuePlayRef.current = null;
+      if (!playbackRef.current) {
+        setIsPlaying(false);
+        setCurrentSpeakingMessageId(null);
+      }
+      return;
     }
+
+    audio.currentTime = queue.time;
+    applyPlaybackSettings(audio, voiceSettings);
+    startPlayback(audio, queue.messageId, index, part.track);
+
+    audio.ontimeupdate = () => {
+      if (queue.current !== index) return;
+      queue.time = audio.currentTime;
+      onUpdate();
+    };
+
+    audio.onended = () => {
+      if (playbackRef.current?.audio !== audio) return;
+      endPlayback(audio);
+      // The next part is usually buffered already; after the last one the
+      // queue goes back to the start
+      queue.current = index + 1 < queue.parts.length ? index + 1 : 0;
+      queue.time = 0;
+      onUpdate();
+      if (queue.current > 0) playQueue(queue);
+    };
+
+    audio.onerror = () => {
+      console.error("Audio playback error for part:", part.text);
+      endPlayback(audio);
+    };
+
+    audio.play().catch(console.error);
   };
 
-  // Continue TTS for remaining parts
-  const continueTTS = (messageId: number) => {
-    const ttsData = ttsTextParts[messageId];
-    if (ttsData && ttsData.currentPart + 1 < ttsData.parts.length) {
-      const nextPart = ttsData.currentPart + 1;
-      speakTextChunked(ttsData.fullText, messageId, nextPart);
+  // Jump to a part, and a time in it; narration that was playing (or about
+  // to) continues from there
+  const moveQueue = (queue: NarrationQueue, part: number, time = 0) => {
+    const playback = playbackRef.current;
+    const current = queue.parts[queue.current];
+    const isCurrent = playback !== null && playback.audio === current.audio;
+    const wasPlaying = isCurrent || queuePlayRef.current?.queue === queue;
+
+    if (isCurrent && part === queue.current) {
+      playback.audio.currentTime = time;
+      return;
+    }
+
+    queuePlayRef.current = null;
+    if (wasPlaying && playback) {
+      releaseAudio(playback);
+      endPlayback(playback.audio);
     }
+    queue.current = Math.min(Math.max(part, 0), queue.parts.length - 1);
+    queue.time = time;
+    showQueueProgress(queue);
+    if (wasPlaying) playQueue(queue);
   };
+
+  // Clicking a sentence of the insights being read jumps to it. Parts of a
+  // narration queue only know the timings of their own words, so the click
+  // first finds the part that reads the sentence.
+  const seekNarration = (
+    messageId: number,
+    event: React.MouseEvent<HTMLDivElement>
+  ) => {
+    const playback = playbackRef.current;
+    const queue = queuesRef.current.get(messageId);
+    const isQueuePlaying =
+      queue !== undefined &&
+      (queuePlayRef.current?.queue === queue ||
+        (playback?.messageId === messageId && playback.part !== null));
+
+    if (queue && isQueuePlaying) {
+      const sentence = sentenceAt(
+        event.currentTarget,
+        queue.parts[0].track.text,
+        event.clientX,
+        event.clientY
+      );
+      const index = sentence
+        ? queue.parts.findLastIndex(
+            (part) => part.track.offset <= sentence.start
+          )
+        : -1;
+      if (!sentence || index < 0) return;
+      // A part whose timings haven't arrived starts from its beginning
+      const time = sentenceTime(queue.parts[index].track, sentence) ?? 0;
+      moveQueue(queue, index, time);
+      return;
+    }
+
+    if (!playback?.track || playback.messageId !== messageId) return;
+    const sentence = sentenceAt(
+      event.currentTarget,
+      playback.track.text,
+      event.clientX,
+      event.clientY
+    );
+    const time = sentence && sentenceTime(playback.track, sentence);
+    if (time != null) playback.audio.currentTime = time;
+  };
+
+  // Pick an interrupted narration up where it stopped
+  const resumeNarration = (message: Message) => {
+    const point = resumePoints[message.id];
+    const insights = message.apiData?.insights;
+    if (!point || !insights) return;
+    speakText(insights, message.id, point.time);
+  };
+
   const stopTTS = () => {
-    if (currentAudio) {
-      currentAudio.pause();
-      currentAudio.src = "";
-      setCurrentAudio(null);
+    // Narration still being fetched would start right after
+    ttsRequestsRef.current.forEach((controller) => controller.abort());
+    ttsRequestsRef.current.clear();
+    queuePlayRef.current = null;
+
+    const playback = playbackRef.current;
+    if (playback) {
+      releaseAudio(playback);
+      endPlayback(playback.audio);
     }
     setIsPlaying(false);
     setCurrentSpeakingMessageId(null);
+    stopBargeInWatch();
+    finishPlayback();
   };
 
-  // Function to play pre-generated audio
-  const playPreGeneratedAudio = (audioUrl: string, messageId?: number) => {
-    try {
-      // Stop any currently playing audio
-      if (currentAudio) {
-        currentAudio.pause();
-        currentAudio.src = "";
+  const finishPlayback = () => {
+    const after = afterPlaybackRef.current;
+    afterPlaybackRef.current = null;
+    after?.();
+  };
+
+  // Function to play pre-generated audio; `onFinished` runs when it ends,
+  // fails or is stopped
+  const playPreGeneratedAudio = (
+    audioUrl: string,
+    messageId?: number,
+    onFinished?: () => void
+  ) => {
+    const track = narrationTracksRef.current.get(audioUrl);
+    narrationTracksRef.current.delete(audioUrl);
+
+    // The user is already asking the next question; keep the answer for
+    // later instead of talking over them
+    if (isRecordingNow()) {
+      if (messageId) {
+        setResumePoints((prev) => ({
+          ...prev,
+          [messageId]: { time: 0 },
+        }));
       }
+      URL.revokeObjectURL(audioUrl);
+      onFinished?.();
+      return;
+    }
 
+    try {
       const audio = new Audio(audioUrl);
-      audio.volume = 0.8;
+      applyPlaybackSettings(audio, voiceSettings);
       audio.preload = "auto";
 
-      setCurrentAudio(audio);
-      setIsPlaying(true);
-      setCurrentSpeakingMessageId(messageId || null);
+      startPlayback(audio, messageId, null, track);
+      afterPlaybackRef.current = onFinished ?? null;
+      if (handsFreeRef.current) watchForBargeIn();
+
+      // Events of audio that was replaced in the meantime must not run the
+      // next answer's hook
+      const finishIfCurrent = () => {
+        if (onFinished && afterPlaybackRef.current === onFinished) {
+          stopBargeInWatch();
+          finishPlayback();
+        }
+      };
 
       audio.onended = () => {
-        setIsPlaying(false);
-        setCurrentAudio(null);
-        setCurrentSpeakingMessageId(null);
+        endPlayback(audio);
         URL.revokeObjectURL(audioUrl);
+        finishIfCurrent();
       };
 
       audio.onerror = () => {
         console.error("Error playing pre-generated audio");
-        setIsPlaying(false);
-        setCurrentAudio(null);
-        setCurrentSpeakingMessageId(null);
+        endPlayback(audio);
         URL.revokeObjectURL(audioUrl);
+        finishIfCurrent();
       };
 
-      audio.play().catch(console.error);
+      audio.play().catch((error) => {
+        console.error(error);
+        finishIfCurrent();
+      });
     } catch (error) {
       console.error("Error in playPreGeneratedAudio:", error);
+      onFinished?.();
     }
   };
 
-  // Enhanced loading messages for different stages
-  const getLoadingMessages = (stage: string) => {
-    const messageGroups: { [key: string]: string[] } = {
-      transcribing: [
-        "Capturing your voice input",
-        "Analyzing audio patterns",
-        "Converting speech to text",
-        "Processing your message",
-      ],
-      understanding: [
-        "Understanding your request",
-        "Analyzing context and intent",
-        "Preparing data queries",
-        "Focusing on key insights",
-      ],
-      analyzing: [
-        "Connecting to data sources",
-        "Running intelligent analysis",
-        "Processing business metrics",
-        "Generating visualizations",
-      ],
-      generating: [
-        "Crafting your response",
-        "Preparing audio narration",
-        "Adding final insights",
-        "Almost ready to deliver",
-      ],
-    };
+  // Progress log for the loading card: one line per real phase reported by
+  // the transcription and query pipeline
+  const addProgressStep = (step: string) => {
+    setProcessingStage(step);
+    setLoadingMessages((prev) => [...prev, step]);
+  };
 
-    if (stage.includes("Transcribing") || stage.includes("Converting")) {
-      return messageGroups.transcribing;
-    } else if (stage.includes("Understanding") || stage.includes("message")) {
-      return messageGroups.understanding;
-    } else if (stage.includes("analyzing") || stage.includes("Processing")) {
-      return messageGroups.analyzing;
-    } else if (
-      stage.includes("Generating") ||
-      stage.includes("audio") ||
-      stage.includes("Finalizing")
-    ) {
-      return messageGroups.generating;
-    }
+  const resetProgress = () => {
+    setProcessingStage("");
+    setLoadingMessages([]);
+  };
 
-    return [
-      "AI is thinking",
-      "Processing your request",
-      "Working on your query",
-      "Getting ready",
-    ];
+  const noteUsageLimit = (error: UsageLimitError) => {
+    setUsageLimit({
+      error,
+      until: error.retryAfterSec
+        ? Date.now() + error.retryAfterSec * 1000
+        : undefined,
+    });
   };
 
-  // Function to start the enhanced loading animation
-  const startEnhancedLoader = (stage: string) => {
-    const messages = getLoadingMessages(stage);
-    setLoadingMessages(messages);
-    setCurrentMessageIndex(0);
-
-    // Cycle through messages from bottom to top
-    const interval = setInterval(() => {
-      setCurrentMessageIndex((prevIndex) => {
-        if (prevIndex < messages.length - 1) {
-          return prevIndex + 1;
-        } else {
-          return 0; // Reset to first message
-        }
-      });
-    }, 1500); // Change message every 1.5 seconds
+  const dismissUsageLimit = useCallback(() => setUsageLimit(null), []);
+
+  // Surface a 413/429 from the speech and query routes in the banner;
+  // returns the limit so callers can explain it in the chat as well
+  const checkUsageLimit = async (
+    response: Response
+  ): Promise<UsageLimitError | null> => {
+    if (response.status !== 413 && response.status !== 429) return null;
+    const limit = toUsageLimitError(
+      await response.json().catch(() => undefined),
+      response.headers.get("retry-after")
+    );
+    if (limit) noteUsageLimit(limit);
+    return limit;
+  };
 
-    return interval;
+  // Insert a message, or replace the one with the given id if it's on screen
+  const putMessage = (id: number, message: Message) => {
+    setMessages((prev) =>
+      prev.some((msg) => msg.id === id)
+        ? prev.map((msg) => (msg.id === id ? message : msg))
+        : [...prev, message]
+    );
   };
 
-  // Function to stop the enhanced loader
-  const stopEnhancedLoader = () => {
-    setLoadingMessages([]);
-    setCurrentMessageIndex(0);
+  // Run edited SQL and swap the new rows into the same answer. Saved answers
+  // are updated server-side too; negative ids are still-streaming
+  // placeholders that haven't been persisted yet.
+  const handleRerunSQL = async (message: Message, sqlQuery: string) => {
+    const conversationId = conversationIdRef.current;
+    try {
+      const rerun = await rerunSQL(
+        sqlQuery,
+        conversationId && message.id > 0
+          ? { conversationId, messageId: message.id }
+          : undefined
+      );
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === message.id && msg.apiData
+            ? {
+                ...msg,
+                apiData: {
+                  ...msg.apiData,
+                  original_sql_query:
+                    msg.apiData.original_sql_query ?? msg.apiData.sql_query,
+                  sql_query: rerun.sql_query,
+                  results: rerun.results,
+                  truncated_at: rerun.truncated_at,
+                  formatted_data: undefined,
+                  sql_rejection: undefined,
+                },
+              }
+            : msg
+        )
+      );
+    } catch (error) {
+      console.error("Error re-running SQL:", error);
+      throw new Error(describeBIError(error));
+    }
+  };
+
+  // What a Home dashboard tile needs to re-ask this answer's question
+  const pinRequest = (
+    message: Message,
+    view: PinRequest["view"],
+    visualization = message.apiData?.visualization
+  ): PinRequest => {
+    const apiData = message.apiData!;
+    const conversationId = conversationIdRef.current;
+    return {
+      question: apiData.question!,
+      sqlQuery: apiData.sql_query,
+      view,
+      snapshot: {
+        sql_query: apiData.sql_query,
+        results: apiData.results ?? [],
+        visualization,
+        formatted_data: apiData.formatted_data,
+        insights: apiData.insights,
+      },
+      source:
+        conversationId && message.id > 0
+          ? { conversationId, messageId: message.id }
+          : undefined,
+    };
   };
 
   // Function to clean markdown formatting for TTS
@@ -470,176 +984,170 @@ export function Chatbox() {
     );
   };
 
-  // Helper function to build conversation history as text string
-  const buildConversationHistory = (): string => {
-    return messages
-      .filter((msg) => !msg.audioData) // Exclude voice messages for now
-      .map((msg) => {
-        if (msg.sender === "user") {
-          return `User: ${msg.content}`;
-        } else {
-          // For assistant messages, include main content but exclude image data
-          let content = msg.content;
-
-          // Add insights if available (but no images)
-          if (msg.apiData?.insights) {
-            content += `\n\nInsights: ${msg.apiData.insights}`;
-          }
+  const queryAPI = async (
+    question: string,
+    {
+      history,
+      onUpdate,
+      language = detectLanguage(question),
+      signal,
+    }: QueryOptions
+  ): Promise<APIResponse | null> => {
+    let data: APIResponse = { question };
+    let streamFailed = false;
+
+    const reportProgress = (step: string) => {
+      addProgressStep(step);
+      // Never talk over a recording
+      if (voiceSettings.narrateProgress && !isRecordingNow()) {
+        speakText(step);
+      }
+    };
 
-          // Add data results summary if available
-          if (msg.apiData?.results && msg.apiData.results.length > 0) {
-            const resultSummary = `Data returned ${msg.apiData.results.length} records`;
-            content += `\n\nData: ${resultSummary}`;
-          }
+    try {
+      reportProgress("Sending your question to the data server");
 
-          return `Assistant: ${content}`;
-        }
-      })
-      .join("\n\n");
-  };
+      const ask = (context: ConversationContext) =>
+        fetch("/api/bi/query", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: NDJSON_CONTENT_TYPE,
+          },
+          body: JSON.stringify({
+            question: question,
+            conversation_context: context,
+            language: language ?? undefined,
+          }),
+          signal,
+        });
 
-  const queryAPI = async (question: string): Promise<APIResponse | null> => {
-    let progressInterval: NodeJS.Timeout;
-    let speechInterval: NodeJS.Timeout;
-    let currentStage = 0;
-    const stages = [
-      "Establishing connection to data servers...",
-      "Processing your request and analyzing context...",
-      "Querying databases and generating insights...",
-      "Finalizing results and preparing response...",
-    ];
-
-    const detailedSteps = [
-      "Starting to process your request",
-      "Connecting to the data warehouse",
-      "Analyzing your question and context",
-      "Running database queries",
-      "Processing the retrieved data",
-      "Applying business intelligence algorithms",
-      "Generating comprehensive insights",
-      "Formatting the results for you",
-      "Almost finished with the analysis",
-    ];
-
-    let currentStepIndex = 0;
+      const context = requestContext(history);
+      let response = await ask(context);
+      // A history still too big for the proxy's size limit is left out
+      // rather than losing the question
+      if (response.status === 413 && context.turns.length > 0) {
+        response = await ask({
+          turns: [],
+          omitted_turns: (context.omitted_turns ?? 0) + context.turns.length,
+        });
+      }
 
-    try {
-      // Start with first stage
-      setProcessingStage(stages[0]);
+      const limit = await checkUsageLimit(response);
+      if (limit) throw limit;
 
-      // Speak the first step immediately
-      if (isTTSEnabled) {
-        speakText(detailedSteps[0]);
+      if (!response.ok || !response.body) {
+        const details = await response.json().catch(() => undefined);
+        console.error("Server error:", response.status, details);
+        return null;
       }
 
-      // Speak detailed steps every 3 seconds
-      speechInterval = setInterval(() => {
-        if (isTTSEnabled && currentStepIndex < detailedSteps.length - 1) {
-          currentStepIndex++;
-          speakText(detailedSteps[currentStepIndex]);
-        }
-      }, 3000);
-
-      // Update stages every 2 seconds
-      progressInterval = setInterval(() => {
-        if (currentStage < stages.length - 1) {
-          currentStage++;
-          setProcessingStage(stages[currentStage]);
+      // Each phase lands in the answer as soon as the backend produces it
+      await readLines(response.body, (line) => {
+        let event: QueryStreamEvent;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          console.warn("Skipping unparseable stream line:", line);
+          return;
         }
-      }, 2000); // Update every 2 seconds
-
-      const conversationHistory = buildConversationHistory();
 
-      const response = await axios.post(
-        "/api/bi/query",
-        {
-          question: question,
-          conversation_history: conversationHistory,
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
+        switch (event.type) {
+          case "status":
+            reportProgress(event.message);
+            break;
+          case "error":
+            console.error("Query stream error:", event);
+            streamFailed = true;
+            if (isSQLGuardCode(event.code)) {
+              data = {
+                ...data,
+                sql_query: event.sql_query ?? data.sql_query,
+                sql_rejection: { code: event.code, message: event.error },
+              };
+              onUpdate?.(data);
+            }
+            break;
+          case "done":
+            break;
+          default:
+            data = applyStreamEvent(data, event);
+            reportProgress(
+              event.type === "rows"
+                ? `${phaseLabels.rows}: ${event.results.length}`
+                : phaseLabels[event.type]
+            );
+            onUpdate?.(data);
         }
-      );
+      });
 
-      // Clear the intervals
-      clearInterval(progressInterval);
-      clearInterval(speechInterval);
-      setProcessingStage("Finalizing insights and preparing audio");
+      if (signal?.aborted) return null;
 
-      // Stop any ongoing TTS but don't announce completion
-      if (isTTSEnabled) {
-        stopTTS();
+      // Keep whatever arrived before a mid-stream failure
+      if (streamFailed && !data.sql_query && !data.results && !data.insights) {
+        return null;
       }
 
-      // Pre-generate TTS for insights during the 2-second delay
-      let preGeneratedAudioUrl = null;
-      if (response.data?.insights && isTTSEnabled) {
+      // Stop any ongoing TTS but don't announce completion
+      stopTTS();
+
+      // Pre-generate TTS for insights so playback starts right away
+      if (data.insights && voiceSettings.autoPlay) {
+        addProgressStep("Preparing audio narration");
+        const controller = trackTTSRequest();
+        const spokenInsights = cleanMarkdownForTTS(data.insights);
+        const track = createNarrationTrack(spokenInsights);
         try {
-          console.log("Pre-generating TTS for insights...");
-          const cleanedInsights = cleanMarkdownForTTS(response.data.insights);
-
-          const ttsResponse = await fetch("/api/tts", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ text: cleanedInsights }),
-          });
-
-          if (ttsResponse.ok) {
-            const audioBlob = await ttsResponse.blob();
-            preGeneratedAudioUrl = URL.createObjectURL(audioBlob);
-            console.log("TTS pre-generation completed");
-          }
+          // Resolves once the response starts; the audio keeps streaming
+          // in while the answer is shown
+          const audioUrl = await requestSpeech(
+            spokenInsights,
+            controller,
+            language,
+            track
+          );
+          narrationTracksRef.current.set(audioUrl, track);
+          data = { ...data, preGeneratedAudioUrl: audioUrl };
         } catch (error) {
-          console.error("Error pre-generating TTS:", error);
+          ttsRequestsRef.current.delete(controller);
+          // A barge-in cancelled it; the answer is shown without audio
+          if (!controller.signal.aborted) {
+            console.error("Error pre-generating TTS:", error);
+          }
         }
       }
 
-      // Store the pre-generated audio URL for later use
-      response.data.preGeneratedAudioUrl = preGeneratedAudioUrl;
-
-      return response.data;
-    } catch (error) {
-      // Clear intervals on error
-      if (progressInterval!) {
-        clearInterval(progressInterval);
-      }
-      if (speechInterval!) {
-        clearInterval(speechInterval);
-      }
-      if (axios.isAxiosError(error)) {
-        if (error.code === "ECONNABORTED") {
-          console.error("Request timeout:", error);
-        } else if (error.code === "ERR_NETWORK") {
-          console.error(
-            "Network error - check if the server is accessible:",
-            error
-          );
-        } else if (error.response) {
-          // Server responded with error status
-          console.error(
-            "Server error:",
-            error.response.status,
-            error.response.data
-          );
-        } else if (error.request) {
-          // Request was made but no response received
-          console.error("No response from server:", error.request);
-        } else {
-          console.error("Request setup error:", error.message);
+      // Stopped while the narration was being prepared
+      if (signal?.aborted) {
+        if (data.preGeneratedAudioUrl) {
+          narrationTracksRef.current.delete(data.preGeneratedAudioUrl);
+          URL.revokeObjectURL(data.preGeneratedAudioUrl);
         }
-      } else {
-        console.error("Non-axios error:", error);
+        return null;
       }
+
+      return data;
+    } catch (error) {
+      if (signal?.aborted) return null;
+      // Callers explain limits themselves instead of blaming the network
+      if (error instanceof UsageLimitError) throw error;
+      console.error(
+        "Network error - check if the server is accessible:",
+        error
+      );
       return null;
     }
   };
 
-  const startRecording = async () => {
+  // `stream` is a microphone that's already open, handed over by the
+  // barge-in watch
+  const startRecording = async (stream?: MediaStream) => {
+    if (isRecordingNow()) return;
+    // Starting to talk cuts any narration short
+    interruptSpeech();
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream ??= await navigator.mediaDevices.getUserMedia({ audio: true });
 
       // Setup audio context for visualization
       audioContextRef.current = new AudioContext();
@@ -677,19 +1185,37 @@ export function Chatbox() {
       };
 
       mediaRecorder.start();
+      recordingStartedAtRef.current = Date.now();
       setIsRecording(true);
       setRecordingTime(0);
       updateAudioLevels();
 
+      if (handsFreeRef.current) {
+        stopVoiceActivityRef.current = detectVoiceActivity(
+          analyserRef.current,
+          { onSilence: () => recordingActionsRef.current.stop() }
+        );
+      }
+
       recordingIntervalRef.current = setInterval(() => {
         setRecordingTime((prev) => prev + 1);
       }, 1000);
     } catch (error) {
       console.error("Error starting recording:", error);
+      // Without a microphone there is nothing to be hands-free with
+      setHandsFree(false);
     }
   };
-  const stopRecording = () => {
-    if (mediaRecorderRef.current) {
+  // `send: false` throws the recording away, e.g. when hands-free mode is
+  // switched off while it is listening
+  const stopRecording = (send = true) => {
+    stopVoiceActivityRef.current?.();
+    stopVoiceActivityRef.current = null;
+
+    if (mediaRecorderRef.current?.state === "recording") {
+      const duration = Math.round(
+        (Date.now() - recordingStartedAtRef.current) / 1000
+      );
       mediaRecorderRef.current.stop();
       mediaRecorderRef.current.stream
         .getTracks()
@@ -712,23 +1238,115 @@ export function Chatbox() {
       }
 
       mediaRecorderRef.current.onstop = async () => {
+        if (!send) return;
         const audioBlob = new Blob(audioChunksRef.current, {
           type: "audio/wav",
         });
         const audioUrl = URL.createObjectURL(audioBlob);
 
         // Send audio message
-        await sendAudioMessage(audioBlob, audioUrl);
+        await sendAudioMessage(audioBlob, audioUrl, duration);
       };
     }
   };
 
-  const sendAudioMessage = async (audioBlob: Blob, audioUrl: string) => {
+  // Hands-free callbacks fire long after the render that set them up, so
+  // they go through the latest versions of these
+  const recordingActionsRef = useRef({
+    start: startRecording,
+    stop: stopRecording,
+  });
+  useEffect(() => {
+    recordingActionsRef.current = {
+      start: startRecording,
+      stop: stopRecording,
+    };
+  });
+
+  const setHandsFree = (enabled: boolean) => {
+    handsFreeRef.current = enabled;
+    setIsHandsFree(enabled);
+  };
+
+  // One question at a time: anything still running is stopped first, so
+  // the Stop button always reaches the question on screen
+  const startQuestion = () => {
+    questionControllerRef.current?.abort();
+    const controller = new AbortController();
+    questionControllerRef.current = controller;
+    return controller;
+  };
+
+  // Stop button: drops the request (the server cancels its upstream call in
+  // turn) and any narration being prepared for the answer
+  const cancelQuestion = () => {
+    questionControllerRef.current?.abort();
+    questionControllerRef.current = null;
+    stopTTS();
+  };
+
+  // Leave a note where the answer would have been, replacing whatever of
+  // it had streamed in
+  const noteCancelledQuestion = async (
+    liveMessageId: number,
+    questionId: number
+  ) => {
+    const cancelledMessage = await persistMessage({
+      content: "You stopped this question before it was answered.",
+      sender: "assistant",
+      parentId: questionId,
+      timestamp: new Date().toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+      cancelled: true,
+    });
+    putMessage(liveMessageId, cancelledMessage);
+    setIsTyping(false);
+    resetProgress();
+    setRecordingTime(0);
+    listenAgain();
+  };
+
+  // Reopen the mic for the next question
+  const listenAgain = () => {
+    if (handsFreeRef.current) recordingActionsRef.current.start();
+  };
+
+  const handleHandsFreeClick = () => {
+    if (isHandsFree) {
+      // The answer playing now can no longer be talked over, and a pending
+      // listenAgain sees the flag and leaves the mic closed
+      setHandsFree(false);
+      stopBargeInWatch();
+      if (isRecording) stopRecording(false);
+      return;
+    }
+
+    setHandsFree(true);
+    if (isRecording) {
+      // Let the recording in progress end on silence too
+      stopVoiceActivityRef.current = analyserRef.current
+        ? detectVoiceActivity(analyserRef.current, {
+            onSilence: () => recordingActionsRef.current.stop(),
+          })
+        : null;
+    } else if (!isTyping) {
+      startRecording();
+    }
+  };
+
+  const sendAudioMessage = async (
+    audioBlob: Blob,
+    audioUrl: string,
+    duration: number
+  ) => {
+    const history = activeBranchRef.current;
     // Create audio message
-    const audioMessage: Message = {
-      id: messages.length + 1,
+    const audioMessage = await persistMessage({
       content: "Voice message",
       sender: "user",
+      parentId: history.at(-1)?.id ?? null,
       timestamp: new Date().toLocaleTimeString([], {
         hour: "2-digit",
         minute: "2-digit",
@@ -736,126 +1354,173 @@ export function Chatbox() {
       audioData: {
         audioBlob,
         audioUrl,
-        duration: recordingTime,
+        duration,
       },
-    };
+    });
 
     setMessages((prev) => [...prev, audioMessage]);
+    setSelectedMessageId(audioMessage.id);
     setIsTyping(true);
-    setProcessingStage("Transcribing audio");
-
-    // Start enhanced loader
-    const loaderInterval = startEnhancedLoader("Transcribing audio");
+    resetProgress();
+    addProgressStep("Transcribing audio");
+    const controller = startQuestion();
 
     try {
       // Transcribe audio using Whisper
       const formData = new FormData();
       formData.append("audio", audioBlob, "recording.wav");
-
-      setProcessingStage("Converting speech to text");
+      formData.append("duration", String(duration));
 
       const transcriptionResponse = await axios.post("/api/whisper", formData, {
         headers: {
           "Content-Type": "multipart/form-data",
         },
+        signal: controller.signal,
       });
 
       const transcribedText = transcriptionResponse.data.text;
-      setProcessingStage("Understanding your message");
-
-      // Update loader for understanding stage
-      clearInterval(loaderInterval);
-      const understandingLoader = startEnhancedLoader(
-        "Understanding your message"
-      );
-
-      // Small delay to show the transcription stage
-      await new Promise((resolve) => setTimeout(resolve, 800));
+      const spokenLanguage: string | null =
+        transcriptionResponse.data.language ?? null;
+      addProgressStep(`Heard: "${transcribedText}"`);
+      putMessage(audioMessage.id, {
+        ...audioMessage,
+        transcript: transcribedText,
+      });
+      if (conversationIdRef.current) {
+        saveTranscript(
+          conversationIdRef.current,
+          audioMessage.id,
+          transcribedText
+        ).catch((error) => console.error("Error saving transcript:", error));
+      }
 
-      // Send transcribed text to analysis API
-      setProcessingStage("Analyzing your data");
-      clearInterval(understandingLoader);
-      const analyzingLoader = startEnhancedLoader("Analyzing your data");
+      // Show the answer as it streams in; it is saved once complete
+      const liveMessageId = -Date.now();
+      const liveTimestamp = new Date().toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      const apiResponse = await queryAPI(transcribedText, {
+        history,
+        onUpdate: (data) =>
+          putMessage(liveMessageId, {
+            id: liveMessageId,
+            content: `I heard: "${transcribedText}"`,
+            sender: "assistant",
+            timestamp: liveTimestamp,
+            parentId: audioMessage.id,
+            apiData: data,
+          }),
+        language: spokenLanguage ?? detectLanguage(transcribedText),
+        signal: controller.signal,
+      });
 
-      const apiResponse = await queryAPI(transcribedText);
+      if (controller.signal.aborted) {
+        await noteCancelledQuestion(liveMessageId, audioMessage.id);
+        return;
+      }
 
       let assistantContent = "";
-      if (apiResponse) {
+      if (apiResponse?.sql_rejection) {
+        assistantContent = `I heard: "${transcribedText}"\n\n${explainRejection(
+          apiResponse.sql_rejection
+        )}`;
+      } else if (apiResponse) {
         assistantContent = `I heard: "${transcribedText}"\n\nI've analyzed your request and generated insights based on your question.`;
       } else {
         assistantContent = `I heard: "${transcribedText}"\n\nI'm sorry, I couldn't connect to the data server at the moment. Please try again.`;
       }
 
-      setProcessingStage("Generating response");
-      clearInterval(analyzingLoader);
-      const generatingLoader = startEnhancedLoader("✨ Generating response...");
+      setIsTyping(false);
+      resetProgress();
+      setRecordingTime(0);
 
       // Stream the response text
-      const assistantMessageId = messages.length + 2;
-      await streamResponse(assistantContent, apiResponse || undefined);
-
-      // Keep loader visible for 2 more seconds while TTS is being prepared
-      // Show finalizing stage during the delay
-      setProcessingStage("Generating audio and finalizing response");
-      clearInterval(generatingLoader);
-      const finalLoader = startEnhancedLoader(
-        "🎵 Generating audio and finalizing response..."
+      const assistantMessageId = await streamResponse(
+        assistantContent,
+        audioMessage.id,
+        apiResponse || undefined,
+        liveMessageId
       );
 
-      setTimeout(() => {
-        setIsTyping(false);
-        setProcessingStage("");
-        setRecordingTime(0);
-        clearInterval(finalLoader);
-        stopEnhancedLoader();
-
-        // Play pre-generated audio if available
-        if (apiResponse?.preGeneratedAudioUrl) {
-          playPreGeneratedAudio(
-            apiResponse.preGeneratedAudioUrl!,
-            assistantMessageId
-          );
-        }
-      }, 2000);
+      // Play pre-generated audio if available; hands-free listens again
+      // once it is over
+      if (apiResponse?.preGeneratedAudioUrl) {
+        playPreGeneratedAudio(
+          apiResponse.preGeneratedAudioUrl,
+          assistantMessageId,
+          listenAgain
+        );
+      } else {
+        listenAgain();
+      }
     } catch (error) {
+      if (controller.signal.aborted) {
+        await noteCancelledQuestion(-Date.now(), audioMessage.id);
+        return;
+      }
       console.error("Error processing audio:", error);
 
-      stopEnhancedLoader();
+      const limit =
+        error instanceof UsageLimitError
+          ? error
+          : axios.isAxiosError(error)
+          ? toUsageLimitError(
+              error.response?.data,
+              error.response?.headers["retry-after"]
+            )
+          : null;
+      if (limit) {
+        noteUsageLimit(limit);
+        // Listening again would only run into the same limit
+        setHandsFree(false);
+      }
 
-      const errorMessage: Message = {
-        id: messages.length + 2,
-        content:
-          "Sorry, I couldn't process your voice message. Please try again or type your message instead.",
+      const errorMessage = await persistMessage({
+        content: limit
+          ? explainUsageLimit(limit)
+          : "Sorry, I couldn't process your voice message. Please try again or type your message instead.",
         sender: "assistant",
+        parentId: audioMessage.id,
         timestamp: new Date().toLocaleTimeString([], {
           hour: "2-digit",
           minute: "2-digit",
         }),
-      };
+      });
 
       setMessages((prev) => [...prev, errorMessage]);
 
       // Handle loader state for error case
       setIsTyping(false);
-      setProcessingStage("");
+      resetProgress();
       setRecordingTime(0);
+      listenAgain();
     }
   };
 
-  const streamResponse = async (content: string, apiData?: APIResponse) => {
-    const assistantMessage: Message = {
-      id: messages.length + 2,
-      content: "",
+  const streamResponse = async (
+    content: string,
+    questionId: number,
+    apiData?: APIResponse,
+    replaceId?: number
+  ): Promise<number> => {
+    // Persist the full answer up front; only the on-screen text is animated
+    const storedMessage = await persistMessage({
+      content,
       sender: "assistant",
+      parentId: questionId,
       timestamp: new Date().toLocaleTimeString([], {
         hour: "2-digit",
         minute: "2-digit",
       }),
-      isTyping: true,
       apiData: apiData || undefined,
-    };
+    });
 
-    setMessages((prev) => [...prev, assistantMessage]);
+    putMessage(replaceId ?? storedMessage.id, {
+      ...storedMessage,
+      content: "",
+      isTyping: true,
+    });
 
     // Stream text character by character
     for (let i = 0; i <= content.length; i++) {
@@ -863,13 +1528,15 @@ export function Chatbox() {
       const currentText = content.slice(0, i);
 
       setMessages((prev) =>
-        prev.map((msg, index) =>
-          index === prev.length - 1
+        prev.map((msg) =>
+          msg.id === storedMessage.id
             ? { ...msg, content: currentText, isTyping: i < content.length }
             : msg
         )
       );
     }
+
+    return storedMessage.id;
   };
 
   const handleMicClick = () => {
@@ -903,43 +1570,82 @@ export function Chatbox() {
       return;
     }
 
-    if (!newMessage.trim()) return;
+    // The question stays in the box until the current answer is done
+    if (!newMessage.trim() || isTyping) return;
 
-    const userMessage: Message = {
-      id: messages.length + 1,
-      content: newMessage,
+    const currentQuestion = newMessage;
+    setNewMessage("");
+    await askQuestion(currentQuestion, activeBranchRef.current);
+  };
+
+  // Ask `question` as a reply to the last message of `history`. The branch
+  // on screen moves to the new question, so an edited one replaces the
+  // original there while the original stays a click away.
+  const askQuestion = async (question: string, history: Message[]) => {
+    const userMessage = await persistMessage({
+      content: question,
       sender: "user",
       timestamp: new Date().toLocaleTimeString([], {
         hour: "2-digit",
         minute: "2-digit",
       }),
-    };
+      parentId: history.at(-1)?.id ?? null,
+    });
 
-    const currentQuestion = newMessage;
     setMessages((prev) => [...prev, userMessage]);
-    setNewMessage("");
-    setIsTyping(true);
-    setProcessingStage("Preparing your request");
-
-    // Start enhanced loader for text processing
-    const preparingLoader = startEnhancedLoader("🚀 Preparing your request...");
-
-    // Add initial delay to show the preparing stage
-    await new Promise((resolve) => setTimeout(resolve, 600));
-
-    setProcessingStage("Analyzing your data");
-    clearInterval(preparingLoader);
-    const analyzingLoader = startEnhancedLoader("🔄 Analyzing your data...");
+    setSelectedMessageId(userMessage.id);
+    await answerQuestion(question, userMessage.id, history);
+  };
 
-    // Query the API
-    const apiResponse = await queryAPI(currentQuestion);
+  // Answer the question saved as `questionId`. Answering one again adds the
+  // new answer next to the earlier ones.
+  const answerQuestion = async (
+    question: string,
+    questionId: number,
+    history: Message[]
+  ) => {
+    setIsTyping(true);
+    resetProgress();
+    const controller = startQuestion();
+
+    // Show the answer as it streams in; it is saved once complete
+    const liveMessageId = -Date.now();
+    const liveTimestamp = new Date().toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    let apiResponse: APIResponse | null = null;
+    let limit: UsageLimitError | null = null;
+    try {
+      apiResponse = await queryAPI(question, {
+        history,
+        onUpdate: (data) =>
+          putMessage(liveMessageId, {
+            id: liveMessageId,
+            content: "Here's what I've found so far.",
+            sender: "assistant",
+            timestamp: liveTimestamp,
+            parentId: questionId,
+            apiData: data,
+          }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (!(error instanceof UsageLimitError)) throw error;
+      limit = error;
+    }
 
-    setProcessingStage("Generating insights");
-    clearInterval(analyzingLoader);
-    const generatingLoader = startEnhancedLoader("✨ Generating insights...");
+    if (controller.signal.aborted) {
+      await noteCancelledQuestion(liveMessageId, questionId);
+      return;
+    }
 
     let assistantContent = "";
-    if (apiResponse) {
+    if (limit) {
+      assistantContent = explainUsageLimit(limit);
+    } else if (apiResponse?.sql_rejection) {
+      assistantContent = explainRejection(apiResponse.sql_rejection);
+    } else if (apiResponse) {
       assistantContent =
         "I've analyzed your data and generated insights based on your question.";
     } else {
@@ -947,42 +1653,55 @@ export function Chatbox() {
         "I'm sorry, I couldn't connect to the data server at the moment. This could be due to:\n\n• Network connectivity issues\n• Server temporarily unavailable\n• Request timeout\n\nPlease check your internet connection and try again.";
     }
 
-    setProcessingStage("Preparing audio response");
-    clearInterval(generatingLoader);
-    const finalLoader = startEnhancedLoader("🎵 Preparing audio response...");
-
-    const assistantMessage: Message = {
-      id: messages.length + 2,
+    const assistantMessage = await persistMessage({
       content: assistantContent,
       sender: "assistant",
-      timestamp: new Date().toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-      }),
+      timestamp: liveTimestamp,
+      parentId: questionId,
       apiData: apiResponse || undefined,
-    };
-
-    await new Promise((resolve) => setTimeout(resolve, 800)); // Small delay for final stage
+    });
+
+    putMessage(liveMessageId, assistantMessage);
+    setIsTyping(false);
+    resetProgress();
+
+    // Play pre-generated audio if available; in hands-free mode the mic
+    // reopens once it is over
+    if (apiResponse?.preGeneratedAudioUrl) {
+      playPreGeneratedAudio(
+        apiResponse.preGeneratedAudioUrl,
+        assistantMessage.id,
+        listenAgain
+      );
+    } else {
+      listenAgain();
+    }
+  };
 
-    setMessages((prev) => [...prev, assistantMessage]);
+  // Typed questions and answers that remember theirs can be asked again
+  const questionOf = (message: Message) => {
+    const parentId = tree.parents.get(message.id);
+    const question = parentId == null ? undefined : tree.byId.get(parentId);
+    if (question?.sender !== "user") return null;
+    const text =
+      message.apiData?.question ??
+      (question.audioData ? question.transcript ?? "" : question.content);
+    return text.trim() ? { id: question.id, text } : null;
+  };
 
-    // Keep loader visible for a moment while TTS is being prepared
-    setTimeout(() => {
-      setIsTyping(false);
-      setProcessingStage("");
-      clearInterval(finalLoader);
-      stopEnhancedLoader();
+  const regenerateAnswer = (message: Message) => {
+    const question = questionOf(message);
+    if (!question) return;
+    // Show the question's latest answer, which will be the new one
+    setSelectedMessageId(question.id);
+    const history = branchTo(tree, tree.parents.get(question.id) ?? null);
+    answerQuestion(question.text, question.id, history);
+  };
 
-      // Play pre-generated audio if available
-      if (apiResponse?.preGeneratedAudioUrl) {
-        setTimeout(() => {
-          playPreGeneratedAudio(
-            apiResponse.preGeneratedAudioUrl!,
-            assistantMessage.id
-          );
-        }, 500); // Small delay before starting audio
-      }
-    }, 1500);
+  const submitEdit = (message: Message, question: string) => {
+    if (isTyping) return;
+    setEditingMessageId(null);
+    askQuestion(question, branchTo(tree, tree.parents.get(message.id) ?? null));
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -1016,7 +1735,7 @@ export function Chatbox() {
       {/* Messages Area */}
       <ScrollArea className="flex-1 min-h-0 p-6" ref={scrollAreaRef}>
         <div className="space-y-6">
-          {messages.map((message) => (
+          {branch.map((message) => (
             <div
               key={message.id}
               className={`flex gap-4 ${
@@ -1047,9 +1766,29 @@ export function Chatbox() {
                     color: message.sender === "user" ? "white" : "#333f48",
                   }}
                 >
-                  <p className="text-base leading-relaxed whitespace-pre-wrap">
-                    {message.content}
-                  </p>
+                  {message.cancelled && (
+                    <div
+                      className="flex items-center gap-1 mb-1 text-xs font-medium uppercase tracking-wide"
+                      style={{ color: "#898d8d" }}
+                    >
+                      <Ban className="h-3 w-3" />
+                      Cancelled
+                    </div>
+                  )}
+                  {editingMessageId === message.id ? (
+                    <MessageEditor
+                      initialText={message.content}
+                      onSubmit={(text) => submitEdit(message, text)}
+                      onCancel={() => setEditingMessageId(null)}
+                    />
+                  ) : (
+                    <p
+                      className="text-base leading-relaxed whitespace-pre-wrap"
+                      dir={textDirection(message.content)}
+                    >
+                      {message.content}
+                    </p>
+                  )}
 
                   {/* Audio Player for voice messages */}
                   {message.audioData && (
@@ -1075,6 +1814,7 @@ export function Chatbox() {
                             color:
                               message.sender === "user" ? "white" : "#333f48",
                           }}
+                          disabled={!message.audioData.audioUrl}
                           onClick={() => {
                             const audio = new Audio(
                               message.audioData!.audioUrl
@@ -1119,83 +1859,77 @@ export function Chatbox() {
                   {message.sender === "assistant" && message.apiData && (
                     <div className="mt-4 space-y-4">
                       {/* Chart/Visualization */}
-                      {message.apiData.formatted_data?.image_base64 && (
-                        <div className="border rounded-lg overflow-hidden relative group">
-                          {/* Download Button */}
-                          <Button
-                            size="sm"
-                            className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-all duration-200 shadow-lg hover:shadow-xl"
-                            style={{
-                              backgroundColor: "#b6735c",
-                              color: "white",
-                            }}
-                            onClick={() =>
-                              downloadChart(
-                                message.apiData!.formatted_data!.image_base64!,
-                                "data-visualization"
-                              )
-                            }
-                          >
-                            <Download className="h-4 w-4 mr-1" />
-                            Download
-                          </Button>
-                          {/* eslint-disable-next-line @next/next/no-img-element */}
-                          <img
-                            src={`data:image/png;base64,${message.apiData.formatted_data.image_base64}`}
-                            alt="Data Visualization"
-                            className="w-full h-auto"
-                          />
-                        </div>
+                      {(message.apiData.results?.length ||
+                        message.apiData.formatted_data?.image_base64) && (
+                        <ResultsChart
+                          results={message.apiData.results ?? []}
+                          visualization={message.apiData.visualization}
+                          imageBase64={
+                            message.apiData.formatted_data?.image_base64
+                          }
+                          onDownloadImage={() =>
+                            downloadChart(
+                              message.apiData!.formatted_data!.image_base64!,
+                              "data-visualization"
+                            )
+                          }
+                          renderActions={(chartType) =>
+                            message.apiData?.question && (
+                              <PinButton
+                                getTile={() =>
+                                  pinRequest(message, "chart", chartType)
+                                }
+                              />
+                            )
+                          }
+                        />
                       )}
 
                       {/* Data Results */}
                       {message.apiData.results &&
                         message.apiData.results.length > 0 && (
                           <div className="bg-background/50 rounded-lg p-3">
-                            <h4 className="font-medium text-sm mb-2">
-                              Data Results:
-                            </h4>
-                            <div className="overflow-x-auto">
-                              <table className="w-full text-xs">
-                                <thead>
-                                  <tr className="border-b">
-                                    {Object.keys(
-                                      message.apiData.results[0]
-                                    ).map((key) => (
-                                      <th
-                                        key={key}
-                                        className="text-left p-1 font-medium"
-                                      >
-                                        {key
-                                          .replace(/_/g, " ")
-                                          .replace(/\b\w/g, (l) =>
-                                            l.toUpperCase()
-                                          )}
-                                      </th>
-                                    ))}
-                                  </tr>
-                                </thead>
-                                <tbody>
-                                  {message.apiData.results.map((row, index) => (
-                                    <tr
-                                      key={index}
-                                      className="border-b border-gray-100"
+                            <div className="flex items-center justify-between gap-2 mb-2">
+                              <h4 className="font-medium text-sm">
+                                Data Results:
+                                {message.apiData.original_sql_query &&
+                                  message.apiData.original_sql_query !==
+                                    message.apiData.sql_query && (
+                                    <span
+                                      className="ml-2 text-xs font-normal"
+                                      style={{ color: "#898d8d" }}
                                     >
-                                      {Object.values(row).map(
-                                        (value, cellIndex) => (
-                                          <td key={cellIndex} className="p-1">
-                                            {typeof value === "number" &&
-                                            value > 1000
-                                              ? value.toLocaleString()
-                                              : String(value)}
-                                          </td>
-                                        )
-                                      )}
-                                    </tr>
-                                  ))}
-                                </tbody>
-                              </table>
+                                      from edited SQL; insights describe the
+                                      original query
+                                    </span>
+                                  )}
+                                {message.apiData.truncated_at && (
+                                  <span
+                                    className="ml-2 text-xs font-normal"
+                                    style={{ color: "#898d8d" }}
+                                  >
+                                    first{" "}
+                                    {message.apiData.truncated_at.toLocaleString()}{" "}
+                                    rows only
+                                  </span>
+                                )}
+                              </h4>
+                              <div className="flex items-center gap-1">
+                                {message.apiData.question && (
+                                  <PinButton
+                                    getTile={() => pinRequest(message, "table")}
+                                  />
+                                )}
+                                <ExportButtons
+                                  source={{
+                                    results: message.apiData.results,
+                                    question: message.apiData.question,
+                                    sqlQuery: message.apiData.sql_query,
+                                  }}
+                                />
+                              </div>
                             </div>
+                            <ResultsTable results={message.apiData.results} />
                           </div>
                         )}
 
@@ -1246,184 +1980,237 @@ export function Chatbox() {
                                   </Button>
                                 </div>
                               ) : (
-                                isTTSEnabled && (
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="p-1 h-6 w-6 text-blue-500 hover:text-blue-700 hover:bg-blue-50"
-                                    onClick={() =>
-                                      message.apiData?.insights &&
-                                      speakTextChunked(
-                                        message.apiData.insights,
-                                        message.id
-                                      )
-                                    }
-                                    title="Listen to insights"
-                                  >
-                                    <Volume2 className="h-3 w-3" />
-                                  </Button>
-                                )
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="p-1 h-6 w-6 text-blue-500 hover:text-blue-700 hover:bg-blue-50"
+                                  onClick={() => playQueue(getQueue(message))}
+                                  title="Listen to insights"
+                                >
+                                  <Volume2 className="h-3 w-3" />
+                                </Button>
                               )}
                             </div>
                           </div>
                           <div
                             className="text-sm prose prose-sm max-w-none"
                             style={{ color: "#555" }}
+                            dir={textDirection(message.apiData.insights)}
                           >
-                            <ReactMarkdown
-                              components={{
-                                h1: (props) => (
-                                  <h1
-                                    className="text-lg font-bold mb-2"
-                                    style={{ color: "#333F48" }}
-                                    {...props}
-                                  />
-                                ),
-                                h2: (props) => (
-                                  <h2
-                                    className="text-base font-bold mb-2"
-                                    style={{ color: "#333F48" }}
-                                    {...props}
-                                  />
-                                ),
-                                h3: (props) => (
-                                  <h3
-                                    className="text-sm font-bold mb-1"
-                                    style={{ color: "#333F48" }}
-                                    {...props}
-                                  />
-                                ),
-                                p: (props) => (
-                                  <p
-                                    className="mb-2 leading-relaxed"
-                                    {...props}
-                                  />
-                                ),
-                                ul: (props) => (
-                                  <ul
-                                    className="list-disc pl-5 mb-2"
-                                    {...props}
-                                  />
-                                ),
-                                ol: (props) => (
-                                  <ol
-                                    className="list-decimal pl-5 mb-2"
-                                    {...props}
-                                  />
-                                ),
-                                li: (props) => (
-                                  <li className="mb-1" {...props} />
-                                ),
-                                strong: (props) => (
-                                  <strong
-                                    className="font-bold"
-                                    style={{ color: "#333F48" }}
-                                    {...props}
-                                  />
-                                ),
-                                em: (props) => (
-                                  <em className="italic" {...props} />
-                                ),
-                                code: (props) => (
-                                  <code
-                                    className="px-1 py-0.5 rounded text-xs font-mono"
-                                    style={{
-                                      backgroundColor: "#e9ecef",
-                                      color: "#333F48",
-                                    }}
-                                    {...props}
-                                  />
-                                ),
-                                blockquote: (props) => (
-                                  <blockquote
-                                    className="border-l-4 pl-3 py-1 my-2"
-                                    style={{
-                                      borderColor: "#b6735c",
-                                      backgroundColor:
-                                        "rgba(182, 115, 92, 0.1)",
-                                    }}
-                                    {...props}
-                                  />
-                                ),
+                            {/* Follows the narration; click a sentence to jump to it */}
+                            <div
+                              ref={(element) => {
+                                if (element) {
+                                  insightsRefs.current.set(message.id, element);
+                                } else {
+                                  insightsRefs.current.delete(message.id);
+                                }
                               }}
+                              onClick={(e) => seekNarration(message.id, e)}
+                              className={
+                                currentSpeakingMessageId === message.id
+                                  ? "cursor-pointer"
+                                  : undefined
+                              }
                             >
-                              {message.apiData.insights}
-                            </ReactMarkdown>
+                              <ReactMarkdown
+                                components={{
+                                  h1: (props) => (
+                                    <h1
+                                      className="text-lg font-bold mb-2"
+                                      style={{ color: "#333F48" }}
+                                      {...props}
+                                    />
+                                  ),
+                                  h2: (props) => (
+                                    <h2
+                                      className="text-base font-bold mb-2"
+                                      style={{ color: "#333F48" }}
+                                      {...props}
+                                    />
+                                  ),
+                                  h3: (props) => (
+                                    <h3
+                                      className="text-sm font-bold mb-1"
+                                      style={{ color: "#333F48" }}
+                                      {...props}
+                                    />
+                                  ),
+                                  p: (props) => (
+                                    <p
+                                      className="mb-2 leading-relaxed"
+                                      {...props}
+                                    />
+                                  ),
+                                  ul: (props) => (
+                                    <ul
+                                      className="list-disc ps-5 mb-2"
+                                      {...props}
+                                    />
+                                  ),
+                                  ol: (props) => (
+                                    <ol
+                                      className="list-decimal ps-5 mb-2"
+                                      {...props}
+                                    />
+                                  ),
+                                  li: (props) => (
+                                    <li className="mb-1" {...props} />
+                                  ),
+                                  strong: (props) => (
+                                    <strong
+                                      className="font-bold"
+                                      style={{ color: "#333F48" }}
+                                      {...props}
+                                    />
+                                  ),
+                                  em: (props) => (
+                                    <em className="italic" {...props} />
+                                  ),
+                                  code: (props) => (
+                                    <code
+                                      className="px-1 py-0.5 rounded text-xs font-mono"
+                                      style={{
+                                        backgroundColor: "#e9ecef",
+                                        color: "#333F48",
+                                      }}
+                                      {...props}
+                                    />
+                                  ),
+                                  blockquote: (props) => (
+                                    <blockquote
+                                      className="border-s-4 ps-3 py-1 my-2"
+                                      style={{
+                                        borderColor: "#b6735c",
+                                        backgroundColor:
+                                          "rgba(182, 115, 92, 0.1)",
+                                      }}
+                                      {...props}
+                                    />
+                                  ),
+                                }}
+                              >
+                                {message.apiData.insights}
+                              </ReactMarkdown>
+                            </div>
 
-                            {/* Continue TTS Button */}
-                            {ttsTextParts[message.id] &&
-                              ttsTextParts[message.id].currentPart + 1 <
-                                ttsTextParts[message.id].parts.length && (
+                            {/* Resume a narration cut short by barge-in */}
+                            {resumePoints[message.id] &&
+                              currentSpeakingMessageId !== message.id && (
                                 <div className="mt-3 pt-3 border-t border-gray-200">
                                   <Button
                                     variant="outline"
                                     size="sm"
                                     className="text-blue-600 hover:text-blue-700 hover:bg-blue-50 border-blue-200"
-                                    onClick={() => continueTTS(message.id)}
-                                    disabled={
-                                      isPlaying &&
-                                      currentSpeakingMessageId === message.id
-                                    }
+                                    onClick={() => resumeNarration(message)}
                                   >
-                                    <Volume2 className="h-3 w-3 mr-1" />
-                                    Continue Reading Line{" "}
-                                    {ttsTextParts[message.id].currentPart +
-                                      2} /{" "}
-                                    {ttsTextParts[message.id].parts.length}
+                                    <Play className="h-3 w-3 mr-1" />
+                                    {resumePoints[message.id].time > 0
+                                      ? "Resume narration"
+                                      : "Play narration"}
                                   </Button>
                                 </div>
                               )}
+
+                            {/* Play, skip and seek through the narration */}
+                            {narrationProgress[message.id] && (
+                              <NarrationControls
+                                progress={narrationProgress[message.id]}
+                                isPlaying={
+                                  isPlaying &&
+                                  currentSpeakingMessageId === message.id
+                                }
+                                onPlay={() => playQueue(getQueue(message))}
+                                onPause={stopTTS}
+                                onPrevious={() => {
+                                  const queue = getQueue(message);
+                                  moveQueue(queue, queue.current - 1);
+                                }}
+                                onNext={() => {
+                                  const queue = getQueue(message);
+                                  moveQueue(queue, queue.current + 1);
+                                }}
+                                onSeek={(seconds) => {
+                                  const queue = getQueue(message);
+                                  const { part, time } = queuePosition(
+                                    queue,
+                                    seconds
+                                  );
+                                  moveQueue(queue, part, time);
+                                }}
+                              />
+                            )}
                           </div>
                         </div>
                       )}
 
-                      {/* SQL Query (Optional - for debugging) */}
+                      {/* SQL Query */}
                       {message.apiData.sql_query && (
-                        <details className="text-xs">
-                          <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
-                            View SQL Query
-                          </summary>
-                          <code className="block mt-1 p-2 bg-gray-100 rounded text-xs overflow-x-auto">
-                            {message.apiData.sql_query}
-                          </code>
-                        </details>
+                        <SQLPanel
+                          sqlQuery={message.apiData.sql_query}
+                          originalSqlQuery={message.apiData.original_sql_query}
+                          onRun={(sqlQuery) =>
+                            handleRerunSQL(message, sqlQuery)
+                          }
+                        />
                       )}
                     </div>
                   )}
                 </Card>
-                <p
-                  className={`text-sm mt-2 ${
-                    message.sender === "user" ? "text-right" : "text-left"
+                <div
+                  className={`flex items-center gap-2 mt-2 ${
+                    message.sender === "user" ? "justify-end" : "justify-start"
                   }`}
-                  style={{ color: "#898d8d" }}
                 >
-                  {message.timestamp}
-                </p>
+                  <p className="text-sm" style={{ color: "#898d8d" }}>
+                    {message.timestamp}
+                  </p>
+                  <BranchSwitcher
+                    siblings={siblingsOf(tree, message.id)}
+                    currentId={message.id}
+                    onSelect={setSelectedMessageId}
+                    disabled={isTyping}
+                  />
+                  {message.sender === "user" &&
+                    !message.audioData &&
+                    message.id > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-0 h-5 w-5 text-gray-500 hover:text-gray-800"
+                        onClick={() => setEditingMessageId(message.id)}
+                        disabled={isTyping || isRecording}
+                        title="Edit question"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    )}
+                  {message.sender === "assistant" &&
+                    message.id > 0 &&
+                    questionOf(message) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-0 h-5 w-5 text-gray-500 hover:text-gray-800"
+                        onClick={() => regenerateAnswer(message)}
+                        disabled={isTyping || isRecording}
+                        title="Regenerate answer"
+                      >
+                        <RefreshCw className="h-3 w-3" />
+                      </Button>
+                    )}
+                </div>
               </div>
 
               {message.sender === "user" && (
-                <Avatar className="h-10 w-10 mt-1 ring-2 ring-gray-100 shadow-sm">
-                  <AvatarImage src="/user_avatar.jpg" />
-                  <AvatarFallback
-                    style={{ backgroundColor: "#333f48", color: "white" }}
-                  >
-                    U
-                  </AvatarFallback>
-                </Avatar>
+                <UserAvatar className="mt-1 ring-2 ring-gray-100 shadow-sm" />
               )}
             </div>
           ))}
           {/* Recording Indicator */}
           {isRecording && (
             <div className="flex gap-4">
-              <Avatar className="h-10 w-10 mt-1 ring-2 ring-red-200 shadow-sm">
-                <AvatarImage src="/user_avatar.jpg" />
-                <AvatarFallback
-                  style={{ backgroundColor: "#333f48", color: "white" }}
-                >
-                  U
-                </AvatarFallback>
-              </Avatar>
+              <UserAvatar className="mt-1 ring-2 ring-red-200 shadow-sm" />
               <Card
                 className="p-4 shadow-sm border-0"
                 style={{ backgroundColor: "#fff5f5", borderColor: "#fed7d7" }}
@@ -1515,6 +2302,17 @@ export function Chatbox() {
                       ))}
                     </div>
                   </div>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-shrink-0 h-7 px-2 text-xs text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+                    onClick={cancelQuestion}
+                    title="Stop answering this question"
+                  >
+                    <Square className="h-3 w-3 fill-current" />
+                    Stop
+                  </Button>
                 </div>
               </div>
             </div>
@@ -1528,6 +2326,14 @@ export function Chatbox() {
         className="flex-shrink-0 p-6 border-t"
         style={{ backgroundColor: "white", borderColor: "#e9ecef" }}
       >
+        {usageLimit && (
+          <UsageLimitBanner
+            error={usageLimit.error}
+            until={usageLimit.until}
+            onDismiss={dismissUsageLimit}
+          />
+        )}
+
         {/* Quick Questions */}
         <div className="mb-4 flex flex-wrap gap-2">
           <Button
@@ -1568,7 +2374,9 @@ export function Chatbox() {
               <div className="flex items-center h-10 px-3 border-2 border-red-300 bg-red-50 rounded-md animate-pulse">
                 <div className="flex items-center gap-3 text-red-600">
                   <div className="w-3 h-3 bg-red-500 rounded-full animate-ping"></div>
-                  <span className="text-sm font-medium">Recording...</span>
+                  <span className="text-sm font-medium">
+                    {isHandsFree ? "Listening..." : "Recording..."}
+                  </span>
                   <div className="flex items-center gap-1 ml-2">
                     {audioLevels.map((level, index) => (
                       <div
@@ -1617,6 +2425,28 @@ export function Chatbox() {
               )}
             </Button>
           </div>
+          <Button
+            variant="outline"
+            onClick={handleHandsFreeClick}
+            className="h-10 px-3 shrink-0 transition-all duration-200"
+            style={
+              isHandsFree
+                ? {
+                    backgroundColor: "#b6735c",
+                    borderColor: "#b6735c",
+                    color: "white",
+                  }
+                : { borderColor: "#b6735c", color: "#b6735c" }
+            }
+            aria-pressed={isHandsFree}
+            title={
+              isHandsFree
+                ? "Turn off hands-free mode"
+                : "Hands-free: recordings end when you stop talking and the mic reopens after each answer"
+            }
+          >
+            <Headphones className="h-4 w-4" />
+          </Button>
           <Button
             onClick={handleSendMessage}
             className={`h-10 px-4 shrink-0 hover:opacity-90 transition-all duration-200 ${
@@ -1626,7 +2456,7 @@ export function Chatbox() {
               backgroundColor: isRecording ? "#ef4444" : "#333f48",
               color: "white",
             }}
-            disabled={!newMessage.trim() && !isRecording}
+            disabled={(!newMessage.trim() || isTyping) && !isRecording}
             title={isRecording ? "Stop and send" : "Send message"}
           >
             {isRecording ? (
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, MessageSquare, Pencil, Trash2, X } from "lucide-react";
+import {
+  deleteConversation,
+  fetchConversations,
+  renameConversation,
+} from "@/lib/conversation-api";
+import type { ConversationSummary } from "@/lib/types";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export function ConversationHistory() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  useEffect(() => {
+    fetchConversations()
+      .then(setConversations)
+      .catch((error) => {
+        console.error("Error loading conversations:", error);
+        setError("Couldn't load your conversation history.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const cancelRename = () => {
+    setEditingId(null);
+    setEditingTitle("");
+  };
+
+  const submitRename = async (id: string) => {
+    if (!editingTitle.trim()) return;
+
+    try {
+      const updated = await renameConversation(id, editingTitle);
+      setConversations((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, title: updated.title } : c))
+      );
+      cancelRename();
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      setError("Couldn't rename the conversation. Please try again.");
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+
+    try {
+      await deleteConversation(conversation.id);
+      setConversations((prev) => prev.filter((c) => c.id !== conversation.id));
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      setError("Couldn't delete the conversation. Please try again.");
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden bg-gray-50">
+      <div
+        className="flex-shrink-0 px-6 py-5 border-b bg-white"
+        style={{ borderColor: "#e9ecef" }}
+      >
+        <h2 className="text-lg font-semibold" style={{ color: "#333f48" }}>
+          History
+        </h2>
+        <p className="text-sm" style={{ color: "#898d8d" }}>
+          Reopen a past conversation with its tables, charts and insights.
+        </p>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 p-6">
+        {error && (
+          <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm" style={{ color: "#898d8d" }}>
+            Loading conversations...
+          </p>
+        ) : conversations.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-16 text-center">
+            <MessageSquare className="h-8 w-8" style={{ color: "#b6735c" }} />
+            <p className="text-sm" style={{ color: "#898d8d" }}>
+              No conversations yet. Ask a question in Chat to get started.
+            </p>
+            <Button
+              asChild
+              size="sm"
+              style={{ backgroundColor: "#333f48", color: "white" }}
+            >
+              <Link href="/">Start a chat</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {conversations.map((conversation) => (
+              <Card
+                key={conversation.id}
+                className="p-4 shadow-sm border-0 flex-row items-center gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  {editingId === conversation.id ? (
+                    <Input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") submitRename(conversation.id);
+                        if (e.key === "Escape") cancelRename();
+                      }}
+                      className="h-9"
+                    />
+                  ) : (
+                    <Link
+                      href={`/chat/${conversation.id}`}
+                      className="block truncate font-medium hover:underline"
+                      style={{ color: "#333f48" }}
+                    >
+                      {conversation.title}
+                    </Link>
+                  )}
+                  <p className="text-xs mt-1" style={{ color: "#898d8d" }}>
+                    {formatDate(conversation.updatedAt)} •{" "}
+                    {conversation.messageCount} messages
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  {editingId === conversation.id ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-2 text-green-600 hover:bg-green-50"
+                        onClick={() => submitRename(conversation.id)}
+                        title="Save title"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-2 text-gray-500 hover:bg-gray-100"
+                        onClick={cancelRename}
+                        title="Cancel"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                        onClick={() => startRename(conversation)}
+                        title="Rename conversation"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-2 text-red-500 hover:bg-red-50 hover:text-red-700"
+                        onClick={() => handleDelete(conversation)}
+                        title="Delete conversation"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  ChartColumn,
+  GripVertical,
+  RefreshCw,
+  Table,
+  Trash2,
+} from "lucide-react";
+import { ResultsChart } from "@/components/results-chart";
+import { ResultsTable } from "@/components/results-table";
+import { REFRESH_INTERVALS } from "@/lib/dashboard-layout";
+import type { DashboardTile as Tile, DashboardTileView } from "@/lib/types";
+
+const formatRefreshedAt = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+type DashboardTileProps = {
+  tile: Tile;
+  isRefreshing: boolean;
+  error?: string;
+  isDragging: boolean;
+  onRefresh: () => void;
+  onRemove: () => void;
+  onChangeView: (view: DashboardTileView) => void;
+  onChangeInterval: (refreshIntervalSec: number | null) => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onResizeStart: (e: React.PointerEvent) => void;
+};
+
+export function DashboardTile({
+  tile,
+  isRefreshing,
+  error,
+  isDragging,
+  onRefresh,
+  onRemove,
+  onChangeView,
+  onChangeInterval,
+  onDragStart,
+  onDragEnd,
+  onResizeStart,
+}: DashboardTileProps) {
+  const results = tile.snapshot.results ?? [];
+
+  return (
+    <Card
+      className={`relative h-full flex flex-col gap-0 p-0 overflow-hidden shadow-sm ${
+        isDragging ? "opacity-40" : ""
+      }`}
+      style={{ borderColor: "#e9ecef" }}
+    >
+      {/* Header doubles as the drag handle for rearranging */}
+      <div
+        className="flex items-center gap-2 px-3 py-2 border-b bg-white cursor-grab active:cursor-grabbing"
+        style={{ borderColor: "#e9ecef" }}
+        draggable
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+      >
+        <GripVertical className="h-4 w-4 flex-shrink-0 text-gray-300" />
+        <div className="flex-1 min-w-0">
+          <h3
+            className="text-sm font-medium truncate"
+            style={{ color: "#333f48" }}
+            title={tile.question}
+          >
+            {tile.title}
+          </h3>
+          <p className="text-[11px] truncate" style={{ color: "#898d8d" }}>
+            Updated {formatRefreshedAt(tile.refreshedAt)}
+          </p>
+        </div>
+
+        <select
+          value={tile.refreshIntervalSec ?? ""}
+          onChange={(e) =>
+            onChangeInterval(e.target.value ? Number(e.target.value) : null)
+          }
+          aria-label="Refresh interval"
+          className="bg-transparent text-xs text-gray-500 outline-none"
+        >
+          {REFRESH_INTERVALS.map((option) => (
+            <option key={option.label} value={option.value ?? ""}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-gray-500 hover:text-gray-800"
+          onClick={() =>
+            onChangeView(tile.view === "chart" ? "table" : "chart")
+          }
+          title={tile.view === "chart" ? "Show as table" : "Show as chart"}
+        >
+          {tile.view === "chart" ? (
+            <Table className="h-3.5 w-3.5" />
+          ) : (
+            <ChartColumn className="h-3.5 w-3.5" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-gray-500 hover:text-gray-800"
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          title="Refresh now"
+        >
+          <RefreshCw
+            className={`h-3.5 w-3.5 ${isRefreshing ? "animate-spin" : ""}`}
+          />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-gray-500 hover:text-red-600"
+          onClick={onRemove}
+          title="Remove from dashboard"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-2 bg-white">
+        {tile.view === "chart" ? (
+          <ResultsChart
+            results={results}
+            visualization={tile.snapshot.visualization}
+            imageBase64={tile.snapshot.formatted_data?.image_base64}
+            fill
+          />
+        ) : (
+          <ResultsTable results={results} />
+        )}
+      </div>
+
+      {error && (
+        <div className="px-3 py-1.5 border-t border-red-200 bg-red-50 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Drag the corner to resize in whole grid cells */}
+      <div
+        className="absolute bottom-0 right-0 h-4 w-4 cursor-nwse-resize touch-none"
+        onPointerDown={onResizeStart}
+        title="Drag to resize"
+        style={{
+          background:
+            "linear-gradient(135deg, transparent 50%, #898d8d 50%, #898d8d 60%, transparent 60%, transparent 70%, #898d8d 70%, #898d8d 80%, transparent 80%)",
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import axios from "axios";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LayoutDashboard, RefreshCw } from "lucide-react";
+import { DashboardTile } from "@/components/dashboard-tile";
+import {
+  fetchTiles,
+  refreshTile,
+  removeTile,
+  saveLayout,
+  updateTile,
+} from "@/lib/dashboard-api";
+import { describeBIError } from "@/lib/bi-api";
+import { toUsageLimitError } from "@/lib/usage-limits";
+import {
+  DASHBOARD_COLUMNS,
+  TILE_ROW_HEIGHT,
+  clampTileSize,
+} from "@/lib/dashboard-layout";
+import type { DashboardTile as Tile, DashboardTileSize } from "@/lib/types";
+
+const GRID_GAP = 16;
+// How often tiles are checked for a due automatic refresh
+const REFRESH_CHECK_MS = 15_000;
+
+type ResizeState = {
+  id: string;
+  startX: number;
+  startY: number;
+  startSize: DashboardTileSize;
+};
+
+export function Dashboard() {
+  const [tiles, setTiles] = useState<Tile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState<string[]>([]);
+  const [tileErrors, setTileErrors] = useState<Record<string, string>>({});
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const gridRef = useRef<HTMLDivElement>(null);
+  const resizeRef = useRef<ResizeState | null>(null);
+  // Latest tiles for callbacks that outlive a render (timers, pointer events)
+  const tilesRef = useRef<Tile[]>([]);
+  const refreshingRef = useRef(new Set<string>());
+  // Automatic refreshes wait until a rate limit or quota has reset
+  const pausedUntilRef = useRef(0);
+
+  useEffect(() => {
+    tilesRef.current = tiles;
+  }, [tiles]);
+
+  useEffect(() => {
+    fetchTiles()
+      .then(setTiles)
+      .catch((error) => {
+        console.error("Error loading dashboard:", error);
+        setError("Couldn't load your dashboard.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const replaceTile = (updated: Tile) =>
+    setTiles((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+
+  const persistLayout = async (ordered: Tile[]) => {
+    try {
+      await saveLayout(ordered.map(({ id, size }) => ({ id, size })));
+    } catch (error) {
+      console.error("Error saving dashboard layout:", error);
+      setError("Couldn't save the new layout. Please try again.");
+    }
+  };
+
+  const handleRefresh = useCallback(async (tile: Tile) => {
+    if (refreshingRef.current.has(tile.id)) return;
+    refreshingRef.current.add(tile.id);
+    setRefreshing((prev) => [...prev, tile.id]);
+
+    try {
+      replaceTile(await refreshTile(tile));
+      setTileErrors((prev) => {
+        const next = { ...prev };
+        delete next[tile.id];
+        return next;
+      });
+    } catch (error) {
+      console.error(`Error refreshing tile ${tile.id}:`, error);
+      const limit = axios.isAxiosError(error)
+        ? toUsageLimitError(
+            error.response?.data,
+            error.response?.headers["retry-after"]
+          )
+        : null;
+      if (limit?.retryAfterSec) {
+        pausedUntilRef.current = Date.now() + limit.retryAfterSec * 1000;
+      }
+      setTileErrors((prev) => ({
+        ...prev,
+        [tile.id]: `Refresh failed: ${describeBIError(error)}`,
+      }));
+    } finally {
+      refreshingRef.current.delete(tile.id);
+      setRefreshing((prev) => prev.filter((id) => id !== tile.id));
+    }
+  }, []);
+
+  // Refresh every tile whose interval has elapsed, including ones that went
+  // stale while the page was closed
+  useEffect(() => {
+    const refreshDue = () => {
+      const now = Date.now();
+      if (now < pausedUntilRef.current) return;
+      tilesRef.current
+        .filter(
+          (tile) =>
+            tile.refreshIntervalSec &&
+            now - Date.parse(tile.refreshedAt) >= tile.refreshIntervalSec * 1000
+        )
+        .forEach(handleRefresh);
+    };
+
+    if (!isLoading) refreshDue();
+    const timer = setInterval(refreshDue, REFRESH_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [isLoading, handleRefresh]);
+
+  const handleRemove = async (tile: Tile) => {
+    if (!window.confirm(`Remove "${tile.title}" from the dashboard?`)) return;
+
+    try {
+      await removeTile(tile.id);
+      setTiles((prev) => prev.filter((t) => t.id !== tile.id));
+    } catch (error) {
+      console.error("Error removing tile:", error);
+      setError("Couldn't remove the tile. Please try again.");
+    }
+  };
+
+  const handleUpdate = async (
+    tile: Tile,
+    update: Parameters<typeof updateTile>[1]
+  ) => {
+    replaceTile({ ...tile, ...update });
+    try {
+      replaceTile(await updateTile(tile.id, update));
+    } catch (error) {
+      console.error("Error updating tile:", error);
+      replaceTile(tile);
+      setError("Couldn't update the tile. Please try again.");
+    }
+  };
+
+  // Rearranging: drop a tile onto another to take its place
+  const handleDrop = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+
+    const from = tiles.findIndex((t) => t.id === draggedId);
+    const to = tiles.findIndex((t) => t.id === targetId);
+    const reordered = [...tiles];
+    reordered.splice(to, 0, ...reordered.splice(from, 1));
+
+    setTiles(reordered);
+    setDraggedId(null);
+    persistLayout(reordered);
+  };
+
+  // Resizing: follow the pointer in whole grid cells, save on release
+  const handleResizeStart = (tile: Tile, e: React.PointerEvent) => {
+    e.preventDefault();
+    resizeRef.current = {
+      id: tile.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      startSize: tile.size,
+    };
+
+    const onMove = (event: PointerEvent) => {
+      const resize = resizeRef.current;
+      const grid = gridRef.current;
+      if (!resize || !grid) return;
+
+      const cellWidth =
+        (grid.clientWidth - GRID_GAP * (DASHBOARD_COLUMNS - 1)) /
+        DASHBOARD_COLUMNS;
+      const size = clampTileSize({
+        w:
+          resize.startSize.w +
+          (event.clientX - resize.startX) / (cellWidth + GRID_GAP),
+        h:
+          resize.startSize.h +
+          (event.clientY - resize.startY) / (TILE_ROW_HEIGHT + GRID_GAP),
+      });
+
+      setTiles((prev) =>
+        prev.map((t) =>
+          t.id === resize.id && (t.size.w !== size.w || t.size.h !== size.h)
+            ? { ...t, size }
+            : t
+        )
+      );
+    };
+
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+
+      const resize = resizeRef.current;
+      resizeRef.current = null;
+      const resized = tilesRef.current.find((t) => t.id === resize?.id);
+      if (
+        resize &&
+        resized &&
+        (resized.size.w !== resize.startSize.w ||
+          resized.size.h !== resize.startSize.h)
+      ) {
+        persistLayout(tilesRef.current);
+      }
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden bg-gray-50">
+      <div
+        className="flex-shrink-0 flex items-center justify-between gap-4 px-6 py-5 border-b bg-white"
+        style={{ borderColor: "#e9ecef" }}
+      >
+        <div>
+          <h2 className="text-lg font-semibold" style={{ color: "#333f48" }}>
+            Home
+          </h2>
+          <p className="text-sm" style={{ color: "#898d8d" }}>
+            Answers pinned from Chat. Drag a tile by its header to move it, or
+            by its corner to resize it.
+          </p>
+        </div>
+        {tiles.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => tiles.forEach(handleRefresh)}
+            disabled={refreshing.length > 0}
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${
+                refreshing.length > 0 ? "animate-spin" : ""
+              }`}
+            />
+            Refresh all
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 p-6">
+        {error && (
+          <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm" style={{ color: "#898d8d" }}>
+            Loading dashboard...
+          </p>
+        ) : tiles.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-16 text-center">
+            <LayoutDashboard className="h-8 w-8" style={{ color: "#b6735c" }} />
+            <p className="text-sm" style={{ color: "#898d8d" }}>
+              Nothing pinned yet. Use the Pin button on any chart or table in
+              Chat to keep it here.
+            </p>
+            <Button
+              asChild
+              size="sm"
+              style={{ backgroundColor: "#333f48", color: "white" }}
+            >
+              <Link href="/">Ask a question</Link>
+            </Button>
+          </div>
+        ) : (
+          <div
+            ref={gridRef}
+            className="grid"
+            style={{
+              gridTemplateColumns: `repeat(${DASHBOARD_COLUMNS}, minmax(0, 1fr))`,
+              gridAutoRows: `${TILE_ROW_HEIGHT}px`,
+              gridAutoFlow: "dense",
+              gap: GRID_GAP,
+            }}
+          >
+            {tiles.map((tile) => (
+              <div
+                key={tile.id}
+                style={{
+                  gridColumn: `span ${tile.size.w}`,
+                  gridRow: `span ${tile.size.h}`,
+                }}
+                onDragOver={(e) => {
+                  if (draggedId) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(tile.id);
+                }}
+              >
+                <DashboardTile
+                  tile={tile}
+                  isRefreshing={refreshing.includes(tile.id)}
+                  error={tileErrors[tile.id]}
+                  isDragging={draggedId === tile.id}
+                  onRefresh={() => handleRefresh(tile)}
+                  onRemove={() => handleRemove(tile)}
+                  onChangeView={(view) => handleUpdate(tile, { view })}
+                  onChangeInterval={(refreshIntervalSec) =>
+                    handleUpdate(tile, { refreshIntervalSec })
+                  }
+                  onDragStart={(e) => {
+                    // Firefox only starts a drag when some data is set
+                    e.dataTransfer.setData("text/plain", tile.id);
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggedId(tile.id);
+                  }}
+                  onDragEnd={() => setDraggedId(null)}
+                  onResizeStart={(e) => handleResizeStart(tile, e)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
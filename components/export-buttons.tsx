@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import {
+  exportResults,
+  type ExportFormat,
+  type ExportSource,
+} from "@/lib/export-results";
+
+const FORMATS: {
+  format: ExportFormat;
+  label: string;
+  icon: typeof FileText;
+}[] = [
+  { format: "csv", label: "CSV", icon: FileText },
+  { format: "xlsx", label: "XLSX", icon: FileSpreadsheet },
+  { format: "json", label: "JSON", icon: FileJson },
+];
+
+export function ExportButtons({ source }: { source: ExportSource }) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await exportResults(source, format);
+    } catch (error) {
+      console.error(`Error exporting ${format}:`, error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {FORMATS.map(({ format, label, icon: Icon }) => (
+        <Button
+          key={format}
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-gray-500 hover:text-gray-800"
+          disabled={exporting !== null}
+          onClick={() => handleExport(format)}
+          title={`Export results as ${label}`}
+        >
+          <Icon className="h-3.5 w-3.5" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
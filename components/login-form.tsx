@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Loader2, LogIn } from "lucide-react";
+import { signIn } from "@/lib/auth/api";
+
+type LoginFormProps = {
+  // Where to go after signing in
+  next: string;
+  providerLabel: string;
+};
+
+export function LoginForm({ next, providerLabel }: LoginFormProps) {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await signIn(username, password);
+      router.replace(next);
+      router.refresh();
+    } catch (error) {
+      setError(
+        axios.isAxiosError(error) && error.response?.data?.error
+          ? error.response.data.error
+          : "Couldn't sign in. Please try again."
+      );
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-6"
+      style={{ backgroundColor: "#333f48" }}
+    >
+      <Card className="w-full max-w-sm p-8 gap-6 shadow-lg border-0">
+        <div className="flex flex-col items-center gap-3">
+          <div
+            className="w-full h-16 rounded-lg overflow-hidden"
+            style={{ backgroundColor: "#333f48" }}
+          >
+            <Image
+              src="/alef.png"
+              alt="Alef Logo"
+              width={200}
+              height={64}
+              className="w-full h-full object-contain"
+            />
+          </div>
+          <h1 className="text-lg font-semibold" style={{ color: "#333f48" }}>
+            Alef Dashboard
+          </h1>
+          <p className="text-sm text-center" style={{ color: "#898d8d" }}>
+            {providerLabel}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            aria-label="Username"
+            autoFocus
+            disabled={isSubmitting}
+          />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            aria-label="Password"
+            disabled={isSubmitting}
+          />
+          {error && (
+            <p className="text-sm text-red-700" role="alert">
+              {error}
+            </p>
+          )}
+          <Button
+            type="submit"
+            disabled={isSubmitting || !username.trim() || !password}
+            style={{ backgroundColor: "#b6735c", color: "white" }}
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <LogIn className="h-4 w-4" />
+            )}
+            Sign in
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
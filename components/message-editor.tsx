@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { textDirection } from "@/lib/language";
+
+type MessageEditorProps = {
+  initialText: string;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+};
+
+// Rewords a question in place. Enter asks it, Shift+Enter adds a line and
+// Escape leaves the original as it was.
+export function MessageEditor({
+  initialText,
+  onSubmit,
+  onCancel,
+}: MessageEditorProps) {
+  const [draft, setDraft] = useState(initialText);
+  const canSubmit = draft.trim() !== "" && draft.trim() !== initialText.trim();
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      if (canSubmit) onSubmit(draft.trim());
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-2 min-w-[280px]">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        autoFocus
+        aria-label="Edited question"
+        dir={textDirection(draft)}
+        rows={Math.min(8, Math.max(2, draft.split("\n").length))}
+        className="block w-full p-2 rounded text-base leading-relaxed outline-none resize-y"
+        style={{
+          backgroundColor: "rgba(255,255,255,0.1)",
+          color: "white",
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-white hover:bg-white/20 hover:text-white"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="h-7 px-2 text-xs text-white hover:opacity-90"
+          style={{ backgroundColor: "#b6735c" }}
+          onClick={() => onSubmit(draft.trim())}
+          disabled={!canSubmit}
+        >
+          Ask
+        </Button>
+      </div>
+    </div>
+  );
+}
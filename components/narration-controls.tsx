@@ -0,0 +1,100 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Pause, Play, SkipBack, SkipForward } from "lucide-react";
+import type { QueueProgress } from "@/lib/narration-queue";
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+type NarrationControlsProps = {
+  progress: QueueProgress;
+  isPlaying: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  // Seconds into the whole narration
+  onSeek: (seconds: number) => void;
+};
+
+// Transport for a message's narration queue (see lib/narration-queue.ts)
+export function NarrationControls({
+  progress,
+  isPlaying,
+  onPlay,
+  onPause,
+  onPrevious,
+  onNext,
+  onSeek,
+}: NarrationControlsProps) {
+  const buttonClass =
+    "p-1 h-6 w-6 text-blue-500 hover:text-blue-700 hover:bg-blue-50";
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 flex items-center gap-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={buttonClass}
+        onClick={onPrevious}
+        disabled={progress.part === 0}
+        title="Previous sentence"
+      >
+        <SkipBack className="h-3 w-3" />
+      </Button>
+      {isPlaying ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className={buttonClass}
+          onClick={onPause}
+          title="Pause"
+        >
+          <Pause className="h-3 w-3" />
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className={buttonClass}
+          onClick={onPlay}
+          title="Play"
+        >
+          <Play className="h-3 w-3" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className={buttonClass}
+        onClick={onNext}
+        disabled={progress.part >= progress.parts - 1}
+        title="Next sentence"
+      >
+        <SkipForward className="h-3 w-3" />
+      </Button>
+
+      <input
+        type="range"
+        min={0}
+        max={progress.total}
+        step={0.1}
+        value={Math.min(progress.elapsed, progress.total)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Narration position"
+        className="flex-1 min-w-0"
+        style={{ accentColor: "#b6735c" }}
+      />
+      <span
+        className="text-xs tabular-nums whitespace-nowrap"
+        style={{ color: "#898d8d" }}
+      >
+        {progress.part + 1}/{progress.parts} · {formatTime(progress.elapsed)} /{" "}
+        {formatTime(progress.total)}
+      </span>
+    </div>
+  );
+}
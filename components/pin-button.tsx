@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2, Pin } from "lucide-react";
+import { pinTile, type PinRequest } from "@/lib/dashboard-api";
+
+type PinButtonProps = {
+  // Built on click so the tile captures what is on screen at that moment
+  getTile: () => PinRequest;
+  label?: string;
+};
+
+export function PinButton({ getTile, label = "Pin" }: PinButtonProps) {
+  const [state, setState] = useState<"idle" | "pinning" | "pinned" | "error">(
+    "idle"
+  );
+
+  const handlePin = async () => {
+    setState("pinning");
+    try {
+      await pinTile(getTile());
+      setState("pinned");
+    } catch (error) {
+      console.error("Error pinning to dashboard:", error);
+      setState("error");
+    }
+  };
+
+  if (state === "pinned") {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs"
+        style={{ color: "#b6735c" }}
+        asChild
+      >
+        <Link href="/dashboard" title="Open the Home dashboard">
+          <Check className="h-3.5 w-3.5" />
+          Pinned
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={`h-7 px-2 text-xs ${
+        state === "error" ? "text-red-600" : "text-gray-500 hover:text-gray-800"
+      }`}
+      disabled={state === "pinning"}
+      onClick={handlePin}
+      title={
+        state === "error"
+          ? "Pinning failed, try again"
+          : "Pin to Home dashboard"
+      }
+    >
+      {state === "pinning" ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+      ) : (
+        <Pin className="h-3.5 w-3.5" />
+      )}
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,390 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  Brush,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type LegendPayload,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartColumn,
+  ChartLine,
+  ChartPie,
+  ChartScatter,
+  Download,
+  ImageIcon,
+} from "lucide-react";
+import {
+  formatNumber,
+  inferColumns,
+  isNumericKind,
+  numericValue,
+  type ResultRow,
+} from "@/lib/result-columns";
+
+export type ChartType = "bar" | "line" | "pie" | "scatter" | "image";
+
+const PALETTE = ["#b6735c", "#333f48", "#898d8d", "#d6aa96", "#60707c"];
+
+// Backend hints are free-form ("bar_chart", "Line Chart", "donut", ...)
+const HINT_TYPES: Record<string, Exclude<ChartType, "image">> = {
+  bar: "bar",
+  column: "bar",
+  histogram: "bar",
+  line: "line",
+  area: "line",
+  timeseries: "line",
+  trend: "line",
+  pie: "pie",
+  donut: "pie",
+  doughnut: "pie",
+  scatter: "scatter",
+};
+
+const CHART_OPTIONS: {
+  type: ChartType;
+  label: string;
+  icon: typeof ChartColumn;
+}[] = [
+  { type: "bar", label: "Bar", icon: ChartColumn },
+  { type: "line", label: "Line", icon: ChartLine },
+  { type: "pie", label: "Pie", icon: ChartPie },
+  { type: "scatter", label: "Scatter", icon: ChartScatter },
+  { type: "image", label: "Image", icon: ImageIcon },
+];
+
+export function chartTypeFromHint(hint?: string) {
+  if (!hint) return null;
+  const tokens = hint
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ")
+    .split(" ");
+  const joined = tokens.join("");
+  return (
+    tokens.map((token) => HINT_TYPES[token]).find(Boolean) ??
+    HINT_TYPES[joined] ??
+    null
+  );
+}
+
+const compactNumber = (value: unknown) =>
+  typeof value === "number"
+    ? value.toLocaleString(undefined, {
+        notation: "compact",
+        maximumFractionDigits: 1,
+      })
+    : String(value);
+
+type ResultsChartProps = {
+  results: ResultRow[];
+  visualization?: string;
+  imageBase64?: string;
+  onDownloadImage?: () => void;
+  // Extra toolbar buttons, given the chart type currently on screen
+  renderActions?: (chartType: ChartType) => React.ReactNode;
+  // Stretch to the parent's height (dashboard tiles) instead of a fixed one
+  fill?: boolean;
+};
+
+export function ResultsChart({
+  results,
+  visualization,
+  imageBase64,
+  onDownloadImage,
+  renderActions,
+  fill = false,
+}: ResultsChartProps) {
+  const columns = useMemo(() => inferColumns(results), [results]);
+  const categoryColumn =
+    columns.find((c) => c.kind === "time") ??
+    columns.find((c) => c.kind === "text");
+  const numericColumns = useMemo(
+    () => columns.filter((c) => isNumericKind(c.kind)),
+    [columns]
+  );
+
+  // Recharts needs real numbers; formatted strings like "12%" are converted
+  const data = useMemo(
+    () =>
+      results.map((row) => {
+        const converted: Record<string, string | number | null> = { ...row };
+        numericColumns.forEach(({ key }) => {
+          converted[key] = numericValue(row[key]);
+        });
+        return converted;
+      }),
+    [results, numericColumns]
+  );
+
+  const available = useMemo(() => {
+    const types: ChartType[] = [];
+    if (results.length > 0 && numericColumns.length > 0) {
+      if (categoryColumn) {
+        types.push("bar", "line", "pie");
+      }
+      if (numericColumns.length >= 2) {
+        types.push("scatter");
+      }
+    }
+    if (imageBase64) types.push("image");
+    return types;
+  }, [results.length, numericColumns.length, categoryColumn, imageBase64]);
+
+  // The user's pick wins; until then follow the backend hint, which may
+  // arrive after the rows while an answer is still streaming in. Without a
+  // usable hint the backend's image comes first, then the first chart the
+  // rows allow, so there is always something to switch from.
+  const [selectedType, setSelectedType] = useState<ChartType | null>(null);
+  const [hiddenKeys, setHiddenKeys] = useState<string[]>([]);
+
+  const hintedType = chartTypeFromHint(visualization);
+  const chartType =
+    selectedType && available.includes(selectedType)
+      ? selectedType
+      : hintedType && available.includes(hintedType)
+      ? hintedType
+      : imageBase64
+      ? "image"
+      : available[0] ?? null;
+
+  if (!chartType || available.length === 0) return null;
+
+  const toggleKey = (key: string) =>
+    setHiddenKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+
+  const handleLegendClick = (entry: LegendPayload) => {
+    const key =
+      chartType === "pie" ? String(entry.value) : String(entry.dataKey ?? "");
+    if (key) toggleKey(key);
+  };
+
+  // Tooltips use the same currency/percent formatting as the table
+  const formatTooltipValue = (
+    value: unknown,
+    _name: unknown,
+    item: { dataKey?: unknown }
+  ) => {
+    const column =
+      chartType === "pie"
+        ? numericColumns[0]
+        : numericColumns.find((c) => c.key === item.dataKey);
+    return typeof value === "number" && column
+      ? formatNumber(value, column)
+      : String(value);
+  };
+
+  const isTimeAxis = categoryColumn?.kind === "time";
+  const categoryKey = categoryColumn?.key ?? "";
+
+  const renderChart = () => {
+    switch (chartType) {
+      case "bar":
+      case "line": {
+        const ChartComponent = chartType === "bar" ? BarChart : LineChart;
+        return (
+          <ChartComponent data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e9ecef" />
+            <XAxis dataKey={categoryKey} tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={compactNumber} tick={{ fontSize: 11 }} />
+            <Tooltip formatter={formatTooltipValue} />
+            <Legend
+              onClick={handleLegendClick}
+              wrapperStyle={{ cursor: "pointer" }}
+            />
+            {numericColumns.map((column, index) =>
+              chartType === "bar" ? (
+                <Bar
+                  key={column.key}
+                  dataKey={column.key}
+                  name={column.label}
+                  fill={PALETTE[index % PALETTE.length]}
+                  hide={hiddenKeys.includes(column.key)}
+                />
+              ) : (
+                <Line
+                  key={column.key}
+                  type="monotone"
+                  dataKey={column.key}
+                  name={column.label}
+                  stroke={PALETTE[index % PALETTE.length]}
+                  strokeWidth={2}
+                  dot={results.length <= 40}
+                  hide={hiddenKeys.includes(column.key)}
+                />
+              )
+            )}
+            {/* Drag the handles to zoom into a time range */}
+            {isTimeAxis && results.length > 4 && (
+              <Brush
+                dataKey={categoryKey}
+                height={20}
+                stroke="#b6735c"
+                travellerWidth={8}
+              />
+            )}
+          </ChartComponent>
+        );
+      }
+      case "pie": {
+        const valueColumn = numericColumns[0];
+        // Hidden slices keep their legend entry so they can be toggled back
+        const pieData = results.map((row) => ({
+          name: String(row[categoryKey]),
+          value: hiddenKeys.includes(String(row[categoryKey]))
+            ? 0
+            : numericValue(row[valueColumn.key]) ?? 0,
+        }));
+        return (
+          <PieChart>
+            <Tooltip formatter={formatTooltipValue} />
+            <Legend
+              onClick={handleLegendClick}
+              wrapperStyle={{ cursor: "pointer" }}
+            />
+            <Pie
+              data={pieData}
+              dataKey="value"
+              nameKey="name"
+              outerRadius="75%"
+              label={({ name, percent }) =>
+                percent ? `${name} ${(percent * 100).toFixed(0)}%` : ""
+              }
+            >
+              {pieData.map((entry, index) => (
+                <Cell key={entry.name} fill={PALETTE[index % PALETTE.length]} />
+              ))}
+            </Pie>
+          </PieChart>
+        );
+      }
+      case "scatter": {
+        const [xColumn, yColumn] = numericColumns;
+        return (
+          <ScatterChart>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e9ecef" />
+            <XAxis
+              type="number"
+              dataKey={xColumn.key}
+              name={xColumn.label}
+              tickFormatter={compactNumber}
+              tick={{ fontSize: 11 }}
+            />
+            <YAxis
+              type="number"
+              dataKey={yColumn.key}
+              name={yColumn.label}
+              tickFormatter={compactNumber}
+              tick={{ fontSize: 11 }}
+            />
+            <Tooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              formatter={formatTooltipValue}
+            />
+            <Legend
+              onClick={handleLegendClick}
+              wrapperStyle={{ cursor: "pointer" }}
+            />
+            <Scatter
+              name={`${yColumn.label} vs ${xColumn.label}`}
+              dataKey={yColumn.key}
+              data={data}
+              fill={PALETTE[0]}
+              hide={hiddenKeys.includes(yColumn.key)}
+            />
+          </ScatterChart>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div
+      className={`border rounded-lg overflow-hidden relative group bg-white ${
+        fill ? "h-full flex flex-col" : ""
+      }`}
+    >
+      {/* Chart type switcher */}
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-gray-50">
+        <div className="flex items-center gap-1">
+          {CHART_OPTIONS.filter((option) =>
+            available.includes(option.type)
+          ).map((option) => {
+            const Icon = option.icon;
+            const active = option.type === chartType;
+            return (
+              <Button
+                key={option.type}
+                variant="ghost"
+                size="sm"
+                className={`h-7 px-2 text-xs ${
+                  active
+                    ? "bg-white shadow-sm text-gray-900"
+                    : "text-gray-500 hover:text-gray-800"
+                }`}
+                onClick={() => {
+                  setSelectedType(option.type);
+                  setHiddenKeys([]);
+                }}
+                title={`Show as ${option.label.toLowerCase()}`}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {option.label}
+              </Button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-1">
+          {renderActions?.(chartType)}
+          {chartType === "image" && onDownloadImage && (
+            <Button
+              size="sm"
+              className="h-7 px-2 text-xs opacity-0 group-hover:opacity-100 transition-all duration-200"
+              style={{ backgroundColor: "#b6735c", color: "white" }}
+              onClick={onDownloadImage}
+            >
+              <Download className="h-3.5 w-3.5" />
+              Download
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {chartType === "image" && imageBase64 ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={`data:image/png;base64,${imageBase64}`}
+          alt="Data Visualization"
+          className={
+            fill ? "w-full flex-1 min-h-0 object-contain" : "w-full h-auto"
+          }
+        />
+      ) : (
+        <div className={`w-full p-3 ${fill ? "flex-1 min-h-0" : "h-80"}`}>
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart()!}
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
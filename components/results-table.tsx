@@ -0,0 +1,432 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+} from "lucide-react";
+import {
+  formatCell,
+  formatNumber,
+  inferColumns,
+  isNumericKind,
+  numericValue,
+  timeValue,
+  type ColumnInfo,
+  type ResultRow,
+} from "@/lib/result-columns";
+import { textDirection } from "@/lib/language";
+
+type SortState = { key: string; direction: "asc" | "desc" } | null;
+type SummaryKind = "sum" | "avg" | "min" | "max";
+
+const PAGE_SIZES = [10, 25, 50, 100];
+// Rows sampled when deciding whether the table reads right-to-left
+const DIRECTION_SAMPLE_ROWS = 20;
+
+const SUMMARY_KINDS: SummaryKind[] = ["sum", "avg", "min", "max"];
+const SUMMARY_LABELS: Record<SummaryKind, string> = {
+  sum: "Total",
+  avg: "Average",
+  min: "Minimum",
+  max: "Maximum",
+};
+
+// Numeric filters: "1000", ">1000", "<=5", "10..20"
+function numericFilter(expression: string): ((n: number) => boolean) | null {
+  const range = expression.match(/^(-?[\d.,]+)\s*\.\.\s*(-?[\d.,]+)$/);
+  if (range) {
+    const low = numericValue(range[1]);
+    const high = numericValue(range[2]);
+    if (low === null || high === null) return null;
+    return (n) => n >= low && n <= high;
+  }
+
+  const comparison = expression.match(/^(>=|<=|>|<|=)?\s*(-?[\d.,]+%?)$/);
+  const target = comparison ? numericValue(comparison[2]) : null;
+  if (!comparison || target === null) return null;
+  switch (comparison[1]) {
+    case ">":
+      return (n) => n > target;
+    case ">=":
+      return (n) => n >= target;
+    case "<":
+      return (n) => n < target;
+    case "<=":
+      return (n) => n <= target;
+    default:
+      return (n) => n === target;
+  }
+}
+
+function matchesFilter(
+  value: unknown,
+  column: ColumnInfo,
+  expression: string,
+  locale?: string
+): boolean {
+  if (isNumericKind(column.kind)) {
+    const test = numericFilter(expression);
+    const number = numericValue(value);
+    if (test) return number !== null && test(number);
+  }
+
+  // Text match against both the raw and the displayed value, so "Oct"
+  // finds "2026-10" and "1,200" finds 1200
+  const needle = expression.toLowerCase();
+  return (
+    String(value ?? "")
+      .toLowerCase()
+      .includes(needle) ||
+    formatCell(value, column, locale).toLowerCase().includes(needle)
+  );
+}
+
+// `direction` is 1 for ascending and -1 for descending. Empty cells sort
+// last either way, so only comparisons between values are flipped.
+function compareCells(
+  a: unknown,
+  b: unknown,
+  column: ColumnInfo,
+  direction: 1 | -1
+): number {
+  const emptyLast = (left: boolean, right: boolean) =>
+    left === right ? 0 : left ? 1 : -1;
+
+  const toNumber = column.kind === "time" ? timeValue : numericValue;
+  if (column.kind === "time" || isNumericKind(column.kind)) {
+    const left = toNumber(a);
+    const right = toNumber(b);
+    if (left === null || right === null) {
+      return emptyLast(left === null, right === null);
+    }
+    return (left - right) * direction;
+  }
+
+  const left = String(a ?? "");
+  const right = String(b ?? "");
+  if (!left || !right) return emptyLast(!left, !right);
+  return (
+    left.localeCompare(right, undefined, {
+      numeric: true,
+      sensitivity: "base",
+    }) * direction
+  );
+}
+
+function summarize(values: number[], kind: SummaryKind): number | null {
+  if (values.length === 0) return null;
+  switch (kind) {
+    case "sum":
+      return values.reduce((total, v) => total + v, 0);
+    case "avg":
+      return values.reduce((total, v) => total + v, 0) / values.length;
+    case "min":
+      return Math.min(...values);
+    case "max":
+      return Math.max(...values);
+  }
+}
+
+export function ResultsTable({ results }: { results: ResultRow[] }) {
+  const columns = useMemo(() => inferColumns(results), [results]);
+  // Arabic headers or labels flip the column order and alignment
+  const direction = useMemo(
+    () =>
+      textDirection(
+        [
+          ...columns.map((column) => column.label),
+          ...results
+            .slice(0, DIRECTION_SAMPLE_ROWS)
+            .flatMap((row) =>
+              Object.values(row).filter((v) => typeof v === "string")
+            ),
+        ].join(" ")
+      ),
+    [columns, results]
+  );
+  const locale =
+    typeof navigator === "undefined" ? undefined : navigator.language;
+
+  const [sort, setSort] = useState<SortState>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [pageSize, setPageSize] = useState(25);
+  const [page, setPage] = useState(0);
+  const [summaryKind, setSummaryKind] = useState<SummaryKind>("sum");
+
+  const filteredRows = useMemo(() => {
+    const active = columns
+      .map((column) => ({ column, expression: filters[column.key]?.trim() }))
+      .filter(({ expression }) => expression);
+    if (active.length === 0) return results;
+
+    return results.filter((row) =>
+      active.every(({ column, expression }) =>
+        matchesFilter(row[column.key], column, expression!, locale)
+      )
+    );
+  }, [results, columns, filters, locale]);
+
+  const sortedRows = useMemo(() => {
+    const column = sort && columns.find((c) => c.key === sort.key);
+    if (!sort || !column) return filteredRows;
+
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return [...filteredRows].sort((a, b) =>
+      compareCells(a[column.key], b[column.key], column, direction)
+    );
+  }, [filteredRows, columns, sort]);
+
+  const numericColumns = columns.filter((c) => isNumericKind(c.kind));
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = sortedRows.slice(
+    currentPage * pageSize,
+    (currentPage + 1) * pageSize
+  );
+
+  // Cycle each column through ascending, descending and unsorted
+  const toggleSort = (key: string) =>
+    setSort((prev) =>
+      prev?.key !== key
+        ? { key, direction: "asc" }
+        : prev.direction === "asc"
+        ? { key, direction: "desc" }
+        : null
+    );
+
+  const setFilter = (key: string, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const summaryCell = (column: ColumnInfo) => {
+    if (!isNumericKind(column.kind)) return "";
+    // Adding up percentages doesn't mean anything
+    if (summaryKind === "sum" && column.kind === "percent") return "";
+
+    const values = filteredRows
+      .map((row) => numericValue(row[column.key]))
+      .filter((v): v is number => v !== null);
+    const value = summarize(values, summaryKind);
+    return value === null ? "" : formatNumber(value, column, locale);
+  };
+
+  if (columns.length === 0) return null;
+
+  const hasFilters = Object.values(filters).some((f) => f.trim());
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto" dir={direction}>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b">
+              {columns.map((column) => {
+                const SortIcon =
+                  sort?.key !== column.key
+                    ? ArrowUpDown
+                    : sort.direction === "asc"
+                    ? ArrowUp
+                    : ArrowDown;
+                return (
+                  <th
+                    key={column.key}
+                    className={`p-1 font-medium ${
+                      isNumericKind(column.kind) ? "text-end" : "text-start"
+                    }`}
+                    aria-sort={
+                      sort?.key !== column.key
+                        ? "none"
+                        : sort.direction === "asc"
+                        ? "ascending"
+                        : "descending"
+                    }
+                  >
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-gray-900"
+                      onClick={() => toggleSort(column.key)}
+                      title={`Sort by ${column.label}`}
+                    >
+                      {column.label}
+                      <SortIcon
+                        className={`h-3 w-3 ${
+                          sort?.key === column.key
+                            ? "text-[#b6735c]"
+                            : "text-gray-300"
+                        }`}
+                      />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+            <tr className="border-b">
+              {columns.map((column) => (
+                <th key={column.key} className="p-1 font-normal">
+                  <Input
+                    value={filters[column.key] ?? ""}
+                    onChange={(e) => setFilter(column.key, e.target.value)}
+                    placeholder={
+                      isNumericKind(column.kind) ? ">1000, 10..20" : "Filter"
+                    }
+                    aria-label={`Filter ${column.label}`}
+                    className="h-6 px-1.5 text-xs md:text-xs min-w-16"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row, index) => (
+              <tr
+                key={currentPage * pageSize + index}
+                className="border-b border-gray-100"
+              >
+                {columns.map((column) => (
+                  <td
+                    key={column.key}
+                    className={`p-1 ${
+                      isNumericKind(column.kind) ? "text-end tabular-nums" : ""
+                    }`}
+                  >
+                    {formatCell(row[column.key], column, locale)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={columns.length}
+                  className="p-3 text-center text-gray-500"
+                >
+                  No rows match the filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {numericColumns.length > 0 && filteredRows.length > 0 && (
+            <tfoot>
+              <tr
+                className="border-t-2 font-medium"
+                style={{ color: "#333f48" }}
+              >
+                {columns.map((column, index) => (
+                  <td
+                    key={column.key}
+                    className={`p-1 ${
+                      isNumericKind(column.kind) ? "text-end tabular-nums" : ""
+                    }`}
+                  >
+                    {index === 0 && !isNumericKind(column.kind)
+                      ? SUMMARY_LABELS[summaryKind]
+                      : summaryCell(column)}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {hasFilters
+            ? `${filteredRows.length.toLocaleString(
+                locale
+              )} of ${results.length.toLocaleString(locale)} rows`
+            : `${results.length.toLocaleString(locale)} rows`}
+          {numericColumns.length > 0 && (
+            <>
+              {" · "}
+              <select
+                value={summaryKind}
+                onChange={(e) => setSummaryKind(e.target.value as SummaryKind)}
+                aria-label="Summary row"
+                className="bg-transparent outline-none"
+              >
+                {SUMMARY_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    Summary: {SUMMARY_LABELS[kind].toLowerCase()}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+        </span>
+
+        {sortedRows.length > PAGE_SIZES[0] && (
+          <div className="flex items-center gap-1">
+            <select
+              value={pageSize}
+              onChange={(e) => {
+                setPageSize(Number(e.target.value));
+                setPage(0);
+              }}
+              aria-label="Rows per page"
+              className="bg-transparent outline-none mr-2"
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size} per page
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              disabled={currentPage === 0}
+              onClick={() => setPage(0)}
+              title="First page"
+            >
+              <ChevronsLeft className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              disabled={currentPage === 0}
+              onClick={() => setPage(currentPage - 1)}
+              title="Previous page"
+            >
+              <ChevronLeft className="h-3.5 w-3.5" />
+            </Button>
+            <span className="px-1 tabular-nums">
+              {currentPage + 1} / {pageCount}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              disabled={currentPage >= pageCount - 1}
+              onClick={() => setPage(currentPage + 1)}
+              title="Next page"
+            >
+              <ChevronRight className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              disabled={currentPage >= pageCount - 1}
+              onClick={() => setPage(pageCount - 1)}
+              title="Last page"
+            >
+              <ChevronsRight className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
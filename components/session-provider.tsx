@@ -0,0 +1,24 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { SessionUser } from "@/lib/auth/session";
+
+// The signed-in user, read once on the server by AppShell and handed to
+// client components so they don't each have to fetch /api/auth/session
+const SessionContext = createContext<SessionUser | null>(null);
+
+export function SessionProvider({
+  user,
+  children,
+}: {
+  user: SessionUser | null;
+  children: React.ReactNode;
+}) {
+  return (
+    <SessionContext.Provider value={user}>{children}</SessionContext.Provider>
+  );
+}
+
+export function useSessionUser(): SessionUser | null {
+  return useContext(SessionContext);
+}
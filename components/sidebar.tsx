@@ -1,16 +1,53 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
+import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { MessageSquare, History, Home } from "lucide-react";
+import { UserAvatar } from "@/components/user-avatar";
+import { useSessionUser } from "@/components/session-provider";
+import { signOut } from "@/lib/auth/api";
+import { MessageSquare, History, Home, LogOut, Settings } from "lucide-react";
 
 const menuItems = [
-  { icon: Home, label: "Home", active: false },
-  { icon: MessageSquare, label: "Chat", active: true },
-  { icon: History, label: "History", active: false },
+  { icon: Home, label: "Home", href: "/dashboard", match: ["/dashboard"] },
+  { icon: MessageSquare, label: "Chat", href: "/", match: ["/", "/chat"] },
+  { icon: History, label: "History", href: "/history", match: ["/history"] },
+  {
+    icon: Settings,
+    label: "Settings",
+    href: "/settings",
+    match: ["/settings"],
+  },
 ];
 
+function isActive(pathname: string, match: string[]) {
+  return match.some((prefix) =>
+    prefix === "/"
+      ? pathname === "/"
+      : pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+}
+
 export function Sidebar() {
+  const pathname = usePathname();
+  const router = useRouter();
+  const user = useSessionUser();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await signOut();
+      router.replace("/login");
+      router.refresh();
+    } catch (error) {
+      console.error("Error signing out:", error);
+      setIsSigningOut(false);
+    }
+  };
+
   return (
     <div
       className="h-full w-full flex flex-col overflow-hidden"
@@ -39,24 +76,56 @@ export function Sidebar() {
         <div className="space-y-2">
           {menuItems.map((item, index) => {
             const Icon = item.icon;
+            const active = isActive(pathname, item.match);
+            const content = (
+              <>
+                <Icon className="w-4 h-4" />
+                <span className="flex-1 text-left">{item.label}</span>
+              </>
+            );
             return (
               <Button
                 key={index}
-                variant={item.active ? "secondary" : "ghost"}
+                variant={active ? "secondary" : "ghost"}
                 className={`w-full justify-start gap-3 h-11 px-4 ${
-                  item.active
+                  active
                     ? "bg-gray-700 text-white hover:bg-gray-600"
                     : "text-gray-300 hover:bg-gray-700 hover:text-white"
                 }`}
                 size="sm"
+                asChild={!!item.href}
               >
-                <Icon className="w-4 h-4" />
-                <span className="flex-1 text-left">{item.label}</span>
+                {item.href ? <Link href={item.href}>{content}</Link> : content}
               </Button>
             );
           })}
         </div>
       </div>
+
+      {/* Signed-in user */}
+      {user && (
+        <div className="flex-shrink-0 flex items-center gap-3 px-4 py-4 border-t border-gray-600">
+          <UserAvatar className="h-9 w-9 ring-2 ring-gray-600" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate text-gray-100">
+              {user.name}
+            </p>
+            {user.email && (
+              <p className="text-xs truncate text-gray-400">{user.email}</p>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-gray-300 hover:bg-gray-700 hover:text-white"
+            onClick={handleSignOut}
+            disabled={isSigningOut}
+            title="Sign out"
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Check,
+  Code,
+  Copy,
+  Loader2,
+  Pencil,
+  Play,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import { tokenizeSQL, type SQLTokenType } from "@/lib/sql-highlight";
+
+const TOKEN_COLORS: Record<SQLTokenType, string | undefined> = {
+  keyword: "#b6735c",
+  function: "#60707c",
+  string: "#2f7d55",
+  number: "#7a4fb5",
+  comment: "#898d8d",
+  operator: "#898d8d",
+  text: undefined,
+};
+
+type SQLPanelProps = {
+  sqlQuery: string;
+  // Present once the query has been edited; offered as a reset target
+  originalSqlQuery?: string;
+  // Rejects with a readable message when the backend refuses the query
+  onRun: (sqlQuery: string) => Promise<void>;
+};
+
+export function SQLPanel({ sqlQuery, originalSqlQuery, onRun }: SQLPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(sqlQuery);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isEdited =
+    originalSqlQuery !== undefined && originalSqlQuery !== sqlQuery;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(sqlQuery);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying SQL:", error);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(sqlQuery);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const run = async (query: string) => {
+    if (!query.trim() || isRunning) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await onRun(query);
+      setIsEditing(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      run(draft);
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+      setError(null);
+    }
+  };
+
+  return (
+    <details
+      className="text-xs"
+      open={isOpen}
+      onToggle={(e) => setIsOpen(e.currentTarget.open)}
+    >
+      <summary className="cursor-pointer text-muted-foreground hover:text-foreground inline-flex items-center gap-1.5">
+        <Code className="h-3 w-3" />
+        SQL Query
+        {isEdited && (
+          <Badge
+            variant="outline"
+            className="text-[10px] px-1.5 py-0"
+            style={{ color: "#b6735c", borderColor: "#b6735c" }}
+          >
+            Edited
+          </Badge>
+        )}
+      </summary>
+
+      <div className="mt-2 border rounded-lg overflow-hidden bg-white">
+        <div className="flex items-center justify-end gap-1 px-2 py-1 border-b bg-gray-50">
+          {isEditing ? (
+            <>
+              <span className="mr-auto text-[11px] text-gray-500">
+                Ctrl+Enter to run, Esc to cancel
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => {
+                  setIsEditing(false);
+                  setError(null);
+                }}
+                disabled={isRunning}
+              >
+                <X className="h-3 w-3" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-6 px-2 text-xs"
+                style={{ backgroundColor: "#b6735c", color: "white" }}
+                onClick={() => run(draft)}
+                disabled={isRunning || !draft.trim()}
+              >
+                {isRunning ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Play className="h-3 w-3" />
+                )}
+                Run
+              </Button>
+            </>
+          ) : (
+            <>
+              {isEdited && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs text-gray-500 hover:text-gray-800 mr-auto"
+                  onClick={() => run(originalSqlQuery!)}
+                  disabled={isRunning}
+                  title="Run the backend's original query again"
+                >
+                  {isRunning ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-3 w-3" />
+                  )}
+                  Reset to original
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-gray-500 hover:text-gray-800"
+                onClick={handleCopy}
+                title="Copy SQL"
+              >
+                {copied ? (
+                  <Check className="h-3 w-3" />
+                ) : (
+                  <Copy className="h-3 w-3" />
+                )}
+                {copied ? "Copied" : "Copy"}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-gray-500 hover:text-gray-800"
+                onClick={startEditing}
+                title="Edit and re-run"
+              >
+                <Pencil className="h-3 w-3" />
+                Edit
+              </Button>
+            </>
+          )}
+        </div>
+
+        {isEditing ? (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            autoFocus
+            aria-label="SQL query"
+            rows={Math.min(16, Math.max(4, draft.split("\n").length + 1))}
+            className="block w-full p-2 font-mono text-xs outline-none resize-y bg-white"
+          />
+        ) : (
+          <pre className="p-2 font-mono text-xs overflow-x-auto whitespace-pre">
+            <code>
+              {tokenizeSQL(sqlQuery).map((token, index) => (
+                <span
+                  key={index}
+                  style={{ color: TOKEN_COLORS[token.type] }}
+                  className={token.type === "keyword" ? "font-semibold" : ""}
+                >
+                  {token.text}
+                </span>
+              ))}
+            </code>
+          </pre>
+        )}
+
+        {error && (
+          <div className="px-2 py-1.5 border-t text-xs text-red-700 bg-red-50">
+            {error}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
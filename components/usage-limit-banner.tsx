@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Clock, X } from "lucide-react";
+import {
+  usageLimitExplanations,
+  type UsageLimitError,
+} from "@/lib/usage-limits";
+
+type UsageLimitBannerProps = {
+  error: UsageLimitError;
+  // When the limit lifts, in ms since the epoch; unset for size limits
+  until?: number;
+  onDismiss: () => void;
+};
+
+const formatCountdown = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = (total % 60).toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+// Shown above the chat input while a rate limit or quota is in effect; it
+// counts down and goes away on its own once requests are allowed again
+export function UsageLimitBanner({
+  error,
+  until,
+  onDismiss,
+}: UsageLimitBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!until) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  const remaining = until ? until - now : 0;
+  useEffect(() => {
+    if (until && remaining <= 0) onDismiss();
+  }, [until, remaining, onDismiss]);
+
+  return (
+    <div
+      className="mb-3 flex items-center gap-3 rounded-md border px-3 py-2 text-sm"
+      style={{
+        borderColor: "#b6735c",
+        backgroundColor: "#fdf6f3",
+        color: "#333f48",
+      }}
+      role="status"
+    >
+      <Clock className="h-4 w-4 flex-shrink-0" style={{ color: "#b6735c" }} />
+      <p className="flex-1">
+        {usageLimitExplanations[error.code]}{" "}
+        {until ? (
+          <>
+            Try again in{" "}
+            <span className="font-mono font-medium">
+              {formatCountdown(Math.max(0, remaining))}
+            </span>
+            .
+          </>
+        ) : (
+          `${error.message}.`
+        )}
+      </p>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0 text-gray-500 hover:text-gray-800"
+        onClick={onDismiss}
+        title="Dismiss"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
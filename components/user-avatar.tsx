@@ -0,0 +1,32 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useSessionUser } from "@/components/session-provider";
+import { cn } from "@/lib/utils";
+
+// "Jane Doe" -> "JD", "jane" -> "J"
+function initials(name: string): string {
+  const letters = name
+    .trim()
+    .split(/\s+/)
+    .map((part) => part[0])
+    .filter(Boolean);
+  return (
+    letters.length > 1
+      ? letters[0] + letters[letters.length - 1]
+      : letters[0] ?? "U"
+  ).toUpperCase();
+}
+
+export function UserAvatar({ className }: { className?: string }) {
+  const user = useSessionUser();
+
+  return (
+    <Avatar className={cn("h-10 w-10", className)} title={user?.name}>
+      {user?.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.name} />}
+      <AvatarFallback style={{ backgroundColor: "#333f48", color: "white" }}>
+        {initials(user?.name ?? "")}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
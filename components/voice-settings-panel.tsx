@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Volume2 } from "lucide-react";
+import { fetchVoiceSettings, saveVoiceSettings } from "@/lib/settings-api";
+import { audioUrlFromResponse } from "@/lib/tts-stream";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  RATE_RANGE,
+  VOLUME_RANGE,
+  applyPlaybackSettings,
+  type VoiceOption,
+  type VoiceSettings,
+} from "@/lib/voice-settings";
+
+// Sliders fire on every step; wait for them to settle before saving
+const SAVE_DELAY_MS = 500;
+const PREVIEW_TEXT = "Here's how your insights will sound.";
+
+type ToggleProps = {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+};
+
+function Toggle({ label, description, checked, onChange }: ToggleProps) {
+  return (
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-1 h-4 w-4"
+        style={{ accentColor: "#b6735c" }}
+      />
+      <span>
+        <span
+          className="block text-sm font-medium"
+          style={{ color: "#333f48" }}
+        >
+          {label}
+        </span>
+        <span className="block text-xs" style={{ color: "#898d8d" }}>
+          {description}
+        </span>
+      </span>
+    </label>
+  );
+}
+
+export function VoiceSettingsPanel() {
+  const [settings, setSettings] = useState<VoiceSettings>(
+    DEFAULT_VOICE_SETTINGS
+  );
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<"saving" | "saved" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingRef = useRef<Partial<VoiceSettings>>({});
+  const previewRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    fetchVoiceSettings()
+      .then((data) => {
+        setSettings(data.settings);
+        setVoices(data.voices);
+      })
+      .catch((error) => {
+        console.error("Error loading voice settings:", error);
+        setError("Couldn't load your voice settings.");
+      })
+      .finally(() => setIsLoading(false));
+
+    return () => {
+      // Don't drop a change made just before leaving the page
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      if (Object.keys(pendingRef.current).length > 0) {
+        saveVoiceSettings(pendingRef.current).catch(console.error);
+      }
+      previewRef.current?.pause();
+    };
+  }, []);
+
+  // Apply locally right away and save the accumulated changes once the
+  // user pauses
+  const update = (change: Partial<VoiceSettings>) => {
+    setSettings((prev) => ({ ...prev, ...change }));
+    pendingRef.current = { ...pendingRef.current, ...change };
+    setStatus("saving");
+    setError(null);
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(async () => {
+      const pending = pendingRef.current;
+      pendingRef.current = {};
+      try {
+        await saveVoiceSettings(pending);
+        setStatus("saved");
+      } catch (error) {
+        console.error("Error saving voice settings:", error);
+        setStatus(null);
+        setError("Couldn't save your voice settings. Please try again.");
+      }
+    }, SAVE_DELAY_MS);
+  };
+
+  const handlePreview = async () => {
+    previewRef.current?.pause();
+    setIsPreviewing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/tts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: PREVIEW_TEXT,
+          voice_id: settings.voice ?? undefined,
+        }),
+      });
+      if (!response.ok) throw new Error("TTS request failed");
+
+      const audioUrl = await audioUrlFromResponse(response);
+      const audio = new Audio();
+      previewRef.current = audio;
+      audio.onended = audio.onerror = () => {
+        setIsPreviewing(false);
+        URL.revokeObjectURL(audioUrl);
+      };
+      audio.src = audioUrl;
+      applyPlaybackSettings(audio, settings);
+      await audio.play();
+    } catch (error) {
+      console.error("Error previewing voice:", error);
+      setIsPreviewing(false);
+      setError("Couldn't play the preview.");
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden bg-gray-50">
+      <div
+        className="flex-shrink-0 px-6 py-5 border-b bg-white"
+        style={{ borderColor: "#e9ecef" }}
+      >
+        <h2 className="text-lg font-semibold" style={{ color: "#333f48" }}>
+          Settings
+        </h2>
+        <p className="text-sm" style={{ color: "#898d8d" }}>
+          How answers are read aloud. Changes are saved to your account.
+        </p>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 p-6">
+        {error && (
+          <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm" style={{ color: "#898d8d" }}>
+            Loading settings...
+          </p>
+        ) : (
+          <Card
+            className="max-w-xl p-5 gap-5 shadow-sm"
+            style={{ borderColor: "#e9ecef" }}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium" style={{ color: "#333f48" }}>
+                Voice and playback
+              </h3>
+              <span className="text-xs" style={{ color: "#898d8d" }}>
+                {status === "saving"
+                  ? "Saving..."
+                  : status === "saved"
+                  ? "Saved"
+                  : ""}
+              </span>
+            </div>
+
+            <Toggle
+              label="Play insights automatically"
+              description="Read each answer's insights aloud as soon as it arrives. The listen button works either way."
+              checked={settings.autoPlay}
+              onChange={(autoPlay) => update({ autoPlay })}
+            />
+            <Toggle
+              label="Narrate progress"
+              description="Speak each step while a question is being answered."
+              checked={settings.narrateProgress}
+              onChange={(narrateProgress) => update({ narrateProgress })}
+            />
+
+            <label className="block space-y-1">
+              <span
+                className="block text-sm font-medium"
+                style={{ color: "#333f48" }}
+              >
+                Voice
+              </span>
+              <select
+                value={settings.voice ?? ""}
+                onChange={(e) => update({ voice: e.target.value || null })}
+                className="w-full h-9 rounded-md border px-2 text-sm bg-white outline-none"
+                style={{ borderColor: "#e9ecef", color: "#333f48" }}
+              >
+                <option value="">Default voice</option>
+                {voices.map((voice) => (
+                  <option key={voice.id} value={voice.id}>
+                    {voice.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block space-y-1">
+              <span
+                className="flex justify-between text-sm font-medium"
+                style={{ color: "#333f48" }}
+              >
+                Speaking rate
+                <span className="tabular-nums font-normal">
+                  {settings.rate.toFixed(1)}×
+                </span>
+              </span>
+              <input
+                type="range"
+                {...RATE_RANGE}
+                value={settings.rate}
+                onChange={(e) => update({ rate: Number(e.target.value) })}
+                className="w-full"
+                style={{ accentColor: "#b6735c" }}
+              />
+            </label>
+
+            <label className="block space-y-1">
+              <span
+                className="flex justify-between text-sm font-medium"
+                style={{ color: "#333f48" }}
+              >
+                Volume
+                <span className="tabular-nums font-normal">
+                  {Math.round(settings.volume * 100)}%
+                </span>
+              </span>
+              <input
+                type="range"
+                {...VOLUME_RANGE}
+                value={settings.volume}
+                onChange={(e) => update({ volume: Number(e.target.value) })}
+                className="w-full"
+                style={{ accentColor: "#b6735c" }}
+              />
+            </label>
+
+            <div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePreview}
+                disabled={isPreviewing}
+              >
+                {isPreviewing ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Volume2 className="h-4 w-4" />
+                )}
+                Preview
+              </Button>
+            </div>
+          </Card>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
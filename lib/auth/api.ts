@@ -0,0 +1,16 @@
+import axios from "axios";
+import type { SessionUser } from "@/lib/auth/session";
+
+// Browser-side helpers for the /api/auth routes
+
+export async function signIn(
+  username: string,
+  password: string
+): Promise<SessionUser> {
+  const response = await axios.post("/api/auth/login", { username, password });
+  return response.data.user;
+}
+
+export async function signOut(): Promise<void> {
+  await axios.post("/api/auth/logout");
+}
@@ -0,0 +1,62 @@
+// Sign-in settings. Read by the middleware as well as route handlers, so
+// this module must stay free of Node-only imports.
+//
+//   AUTH_SECRET           key that signs session cookies (required in
+//                         production; a fixed development key is used
+//                         otherwise)
+//   AUTH_PROVIDER         which provider checks credentials (local)
+//   AUTH_SESSION_TTL_SEC  how long a sign-in lasts, in seconds (28800)
+//   AUTH_LOCAL_USERS      accounts for the local provider, as a JSON array
+//                         of {username, password, name, email?, avatarUrl?};
+//                         outside production a demo/demo account is used
+//                         when unset
+
+import { ConfigError } from "@/lib/bi-config";
+
+export type AuthConfig = {
+  secret: string;
+  provider: string;
+  sessionTtlSec: number;
+};
+
+const DEV_SECRET = "alef-dashboard-development-secret";
+const MIN_SECRET_LENGTH = 32;
+
+let cachedConfig: AuthConfig | null = null;
+
+// Parsed once per process; throws ConfigError on invalid settings
+export function getAuthConfig(): AuthConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let secret = process.env.AUTH_SECRET?.trim() ?? "";
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new ConfigError("AUTH_SECRET is not set");
+    }
+    console.warn("AUTH_SECRET is not set; using the development secret");
+    secret = DEV_SECRET;
+  } else if (secret.length < MIN_SECRET_LENGTH) {
+    throw new ConfigError(
+      `AUTH_SECRET must be at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+
+  const rawTtl = process.env.AUTH_SESSION_TTL_SEC?.trim();
+  const sessionTtlSec = rawTtl ? Number(rawTtl) : 8 * 60 * 60;
+  if (
+    !Number.isInteger(sessionTtlSec) ||
+    sessionTtlSec < 60 ||
+    sessionTtlSec > 30 * 24 * 60 * 60
+  ) {
+    throw new ConfigError(
+      `AUTH_SESSION_TTL_SEC must be an integer between 60 and 2592000, got "${rawTtl}"`
+    );
+  }
+
+  cachedConfig = {
+    secret,
+    provider: process.env.AUTH_PROVIDER?.trim().toLowerCase() || "local",
+    sessionTtlSec,
+  };
+  return cachedConfig;
+}
@@ -0,0 +1,97 @@
+import type { NextRequest } from "next/server";
+import { readInt } from "@/lib/bi-config";
+import { getClientIp, getUsageLimitsConfig } from "@/lib/usage-limiter";
+import { UsageLimitError, formatRetryAfter } from "@/lib/usage-limits";
+
+// Slows down password guessing on /api/auth/login. Failed sign-ins are
+// counted per username and, behind a trusted proxy (TRUSTED_PROXY_COUNT),
+// per client address; once either reaches its limit, sign-ins for it are
+// refused until the lockout has passed. 0 turns a limit off:
+//
+//   AUTH_MAX_FAILURES     failed sign-ins per username (5)
+//   AUTH_IP_MAX_FAILURES  failed sign-ins per client address (20)
+//   AUTH_LOCKOUT_SEC      how long failures are counted and a lockout
+//                         lasts (900)
+//
+// Like the usage limits, counters live in memory per server process.
+
+type LoginThrottleConfig = {
+  maxFailures: number;
+  ipMaxFailures: number;
+  lockoutSec: number;
+};
+
+type Failures = { start: number; count: number };
+
+const failures = new Map<string, Failures>();
+const PRUNE_THRESHOLD = 10_000;
+
+let cachedConfig: LoginThrottleConfig | null = null;
+
+function getLoginThrottleConfig(): LoginThrottleConfig {
+  if (cachedConfig) return cachedConfig;
+  cachedConfig = {
+    maxFailures: readInt("AUTH_MAX_FAILURES", 5, { min: 0, max: 1_000 }),
+    ipMaxFailures: readInt("AUTH_IP_MAX_FAILURES", 20, {
+      min: 0,
+      max: 100_000,
+    }),
+    lockoutSec: readInt("AUTH_LOCKOUT_SEC", 900, { min: 1, max: 86_400 }),
+  };
+  return cachedConfig;
+}
+
+function throttleKeys(request: NextRequest, username: string) {
+  const { maxFailures, ipMaxFailures } = getLoginThrottleConfig();
+  const ip = getClientIp(request, getUsageLimitsConfig().trustedProxies);
+  return [
+    { key: `user:${username.trim().toLowerCase()}`, limit: maxFailures },
+    ...(ip ? [{ key: `ip:${ip}`, limit: ipMaxFailures }] : []),
+  ].filter(({ limit }) => limit > 0);
+}
+
+// Throws UsageLimitError while the username or address is locked out
+export function assertLoginAllowed(request: NextRequest, username: string) {
+  const lockoutMs = getLoginThrottleConfig().lockoutSec * 1000;
+  const now = Date.now();
+
+  for (const { key, limit } of throttleKeys(request, username)) {
+    const entry = failures.get(key);
+    if (entry && now - entry.start < lockoutMs && entry.count >= limit) {
+      const retryAfterSec = Math.ceil((entry.start + lockoutMs - now) / 1000);
+      throw new UsageLimitError(
+        `Too many failed sign-ins. Try again in ${formatRetryAfter(
+          retryAfterSec
+        )}.`,
+        "rate_limited",
+        retryAfterSec
+      );
+    }
+  }
+}
+
+export function recordLoginFailure(request: NextRequest, username: string) {
+  const lockoutMs = getLoginThrottleConfig().lockoutSec * 1000;
+  const now = Date.now();
+
+  if (failures.size >= PRUNE_THRESHOLD) {
+    for (const [key, entry] of failures) {
+      if (now - entry.start >= lockoutMs) failures.delete(key);
+    }
+  }
+
+  for (const { key } of throttleKeys(request, username)) {
+    const entry = failures.get(key);
+    if (entry && now - entry.start < lockoutMs) {
+      entry.count += 1;
+    } else {
+      failures.set(key, { start: now, count: 1 });
+    }
+  }
+}
+
+// A successful sign-in forgets the username's failures; the address keeps
+// its count so one good account can't be used to reset it
+export function clearLoginFailures(username: string) {
+  failures.delete(`user:${username.trim().toLowerCase()}`);
+}
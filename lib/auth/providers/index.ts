@@ -0,0 +1,31 @@
+import { ConfigError } from "@/lib/bi-config";
+import { getAuthConfig } from "@/lib/auth/config";
+import { createLocalProvider } from "@/lib/auth/providers/local";
+import type { AuthProvider } from "@/lib/auth/providers/types";
+
+// Providers selectable through AUTH_PROVIDER. Adding one means writing a
+// factory that returns an AuthProvider and registering it here.
+const providers: Record<string, () => AuthProvider> = {
+  local: createLocalProvider,
+};
+
+let cachedProvider: AuthProvider | null = null;
+
+export function getAuthProvider(): AuthProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const { provider } = getAuthConfig();
+  const create = providers[provider];
+  if (!create) {
+    throw new ConfigError(
+      `AUTH_PROVIDER must be one of ${Object.keys(providers).join(
+        ", "
+      )}, got "${provider}"`
+    );
+  }
+
+  cachedProvider = create();
+  return cachedProvider;
+}
+
+export type { AuthProvider, Credentials } from "@/lib/auth/providers/types";
@@ -0,0 +1,91 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { ConfigError } from "@/lib/bi-config";
+import type { AuthProvider } from "@/lib/auth/providers/types";
+
+// Username/password accounts from AUTH_LOCAL_USERS. Meant for development
+// and small deployments; anything bigger should plug in a real identity
+// provider instead.
+
+type LocalUser = {
+  username: string;
+  password: string;
+  name: string;
+  email?: string;
+  avatarUrl?: string;
+};
+
+const DEMO_USER: LocalUser = {
+  username: "demo",
+  password: "demo",
+  name: "Demo User",
+  avatarUrl: "/user_avatar.jpg",
+};
+
+function readUsers(): LocalUser[] {
+  const raw = process.env.AUTH_LOCAL_USERS?.trim();
+  if (!raw) {
+    if (process.env.NODE_ENV === "production") {
+      throw new ConfigError("AUTH_LOCAL_USERS is not set");
+    }
+    return [DEMO_USER];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigError("AUTH_LOCAL_USERS is not valid JSON");
+  }
+
+  const valid =
+    Array.isArray(parsed) &&
+    parsed.every(
+      (user) =>
+        typeof user?.username === "string" &&
+        user.username.trim() &&
+        typeof user.password === "string" &&
+        user.password &&
+        typeof user.name === "string"
+    );
+  if (!valid) {
+    throw new ConfigError(
+      "AUTH_LOCAL_USERS must be an array of {username, password, name}"
+    );
+  }
+  return parsed as LocalUser[];
+}
+
+// Compare digests so neither the length nor the content of the stored
+// password leaks through timing
+function matches(candidate: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(candidate), digest(expected));
+}
+
+export function createLocalProvider(): AuthProvider {
+  const users = readUsers();
+
+  return {
+    id: "local",
+    label: "Sign in with your username and password",
+    async authenticate({ username, password }) {
+      const user = users.find(
+        (u) => u.username.toLowerCase() === username.trim().toLowerCase()
+      );
+      // Check a password even for unknown users so both cases take as long
+      const passwordOk = matches(
+        password,
+        user?.password ?? DEMO_USER.password
+      );
+      if (!user || !passwordOk) return null;
+
+      return {
+        id: `local:${user.username.toLowerCase()}`,
+        name: user.name || user.username,
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+        provider: "local",
+      };
+    },
+  };
+}
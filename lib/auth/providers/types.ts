@@ -0,0 +1,16 @@
+import type { SessionUser } from "@/lib/auth/session";
+
+export type Credentials = {
+  username: string;
+  password: string;
+};
+
+// A way of checking who is signing in. Providers only verify credentials;
+// issuing the session cookie is the same for all of them.
+export type AuthProvider = {
+  id: string;
+  // Shown on the sign-in page, e.g. "Sign in with your Alef account"
+  label: string;
+  // The user for valid credentials, null otherwise
+  authenticate(credentials: Credentials): Promise<SessionUser | null>;
+};
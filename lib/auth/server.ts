@@ -0,0 +1,43 @@
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import { getAuthConfig } from "@/lib/auth/config";
+import {
+  SESSION_COOKIE,
+  createSessionToken,
+  verifySessionToken,
+  type SessionUser,
+} from "@/lib/auth/session";
+
+// Session helpers for server components and route handlers. The middleware
+// has already turned away requests without a valid session, so these only
+// need to read who is signed in.
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  return verifySessionToken(
+    cookieStore.get(SESSION_COOKIE)?.value,
+    getAuthConfig().secret
+  );
+}
+
+export async function setSessionCookie(
+  response: NextResponse,
+  user: SessionUser
+) {
+  const { secret, sessionTtlSec } = getAuthConfig();
+  response.cookies.set(
+    SESSION_COOKIE,
+    await createSessionToken(user, secret, sessionTtlSec),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: sessionTtlSec,
+    }
+  );
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
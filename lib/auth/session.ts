@@ -0,0 +1,104 @@
+// Signed session cookies. Uses Web Crypto only so the same code verifies
+// sessions in middleware (edge runtime) and in route handlers (Node).
+//
+// A token is `<base64url payload>.<base64url HMAC-SHA256>`; nothing is
+// stored server-side, so signing out just clears the cookie and a session
+// ends when it expires.
+
+export type SessionUser = {
+  id: string;
+  name: string;
+  email?: string;
+  avatarUrl?: string;
+  // Provider that signed the user in, e.g. "local"
+  provider: string;
+};
+
+type SessionPayload = SessionUser & {
+  // Expiry as seconds since the epoch
+  exp: number;
+};
+
+export const SESSION_COOKIE = "alef_session";
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function createSessionToken(
+  user: SessionUser,
+  secret: string,
+  ttlSec: number
+): Promise<string> {
+  const payload: SessionPayload = {
+    ...user,
+    exp: Math.floor(Date.now() / 1000) + ttlSec,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(body)
+  );
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The signed-in user, or null for a missing, tampered or expired token
+export async function verifySessionToken(
+  token: string | undefined,
+  secret: string
+): Promise<SessionUser | null> {
+  if (!token) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload: SessionPayload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body))
+    );
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+
+    return {
+      id: payload.id,
+      name: payload.name,
+      email: payload.email,
+      avatarUrl: payload.avatarUrl,
+      provider: payload.provider,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+import axios from "axios";
+import type { APIResponse } from "@/lib/types";
+import { isSQLGuardCode, sqlGuardExplanations } from "@/lib/sql-guard";
+import { explainUsageLimit, toUsageLimitError } from "@/lib/usage-limits";
+
+// Browser-side helper for /api/bi/sql. Questions themselves stream through
+// /api/bi/query from the chat (see queryAPI in components/chatbox.tsx).
+
+export type RerunTarget = {
+  conversationId: string;
+  messageId: number;
+};
+
+export async function rerunSQL(
+  sqlQuery: string,
+  target?: RerunTarget
+): Promise<
+  Required<Pick<APIResponse, "sql_query" | "results">> &
+    Pick<APIResponse, "truncated_at">
+> {
+  const response = await axios.post("/api/bi/sql", {
+    sql_query: sqlQuery,
+    conversation_id: target?.conversationId,
+    message_id: target?.messageId,
+  });
+  return response.data;
+}
+
+// Human-readable reason from an /api/bi/* error response
+export function describeBIError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    // Read-only guard rejections come with a code the user can act on
+    const code: unknown = data?.code;
+    if (isSQLGuardCode(code)) {
+      return `${sqlGuardExplanations[code]} (${data.error})`;
+    }
+    const limit = toUsageLimitError(
+      data,
+      error.response?.headers["retry-after"]
+    );
+    if (limit) return explainUsageLimit(limit);
+    const details = data?.details;
+    const detail =
+      typeof details === "string"
+        ? details
+        : typeof details?.detail === "string"
+        ? details.detail
+        : undefined;
+    return detail ?? data?.error ?? error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
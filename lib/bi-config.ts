@@ -0,0 +1,182 @@
+// Configuration for the BI backend behind /api/bi/query. Everything comes
+// from the environment so staging and production only differ in their env
+// files:
+//
+//   BI_QUERY_URL               upstream endpoint (required, http or https)
+//   BI_QUERY_TIMEOUT_MS        per-attempt timeout until headers arrive (60000)
+//   BI_QUERY_MAX_RETRIES       retries after the first attempt (2)
+//   BI_QUERY_RETRY_BASE_MS     first backoff delay, doubled per retry (500)
+//   BI_QUERY_RETRY_MAX_MS      upper bound for a single backoff delay (5000)
+//   BI_QUERY_AUTH_HEADER       header carrying the credential (Authorization)
+//   BI_QUERY_AUTH_TOKEN        credential; sent as "Bearer <token>" when the
+//                              header is Authorization, verbatim otherwise
+//   BI_QUERY_MAX_BODY_BYTES    largest accepted request body (262144)
+//   BI_HISTORY_TOKEN_BUDGET    rough tokens of conversation history sent
+//                              with a question; older turns are shortened
+//                              or left out to fit (4000)
+//   BI_SQL_URL                 endpoint that executes edited SQL for
+//                              /api/bi/sql (optional; re-run is off when unset)
+//   BI_SQL_MAX_ROWS            most rows any answer may return; user SQL
+//                              without a LIMIT gets this one (10000)
+//
+// The mock backend at /api/mock-bi/query and /api/mock-bi/sql (point
+// BI_QUERY_URL and BI_SQL_URL at them for offline work) has its own knobs:
+//
+//   MOCK_BI_ENABLED            serve the mock (true outside production)
+//   MOCK_BI_LATENCY_MS         base delay per answer or streamed phase (400)
+//   MOCK_BI_LATENCY_JITTER_MS  random extra delay on top of the base (200)
+//   MOCK_BI_ERROR_RATE         share of requests failing at random, 0-1 (0)
+//   MOCK_BI_ERROR_STATUS       status used for injected failures (503)
+
+export type BIConfig = {
+  url: string;
+  sqlUrl?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  authHeader: string;
+  authToken?: string;
+  maxBodyBytes: number;
+  historyTokenBudget: number;
+  maxRows: number;
+};
+
+export type MockBIConfig = {
+  enabled: boolean;
+  latencyMs: number;
+  jitterMs: number;
+  errorRate: number;
+  errorStatus: number;
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export function readInt(
+  name: string,
+  fallback: number,
+  { min, max }: { min: number; max: number }
+): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ConfigError(
+      `${name} must be an integer between ${min} and ${max}, got "${raw}"`
+    );
+  }
+  return value;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (["1", "true", "yes", "on"].includes(raw)) return true;
+  if (["0", "false", "no", "off"].includes(raw)) return false;
+  throw new ConfigError(`${name} must be true or false, got "${raw}"`);
+}
+
+function readRate(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new ConfigError(`${name} must be a number between 0 and 1`);
+  }
+  return value;
+}
+
+function readUrl(name: string): string {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    throw new ConfigError(`${name} is not set`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new ConfigError(`${name} is not a valid URL: "${raw}"`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ConfigError(`${name} must use http or https`);
+  }
+  return url.toString();
+}
+
+let cachedConfig: BIConfig | null = null;
+
+// Parsed once per server process; throws ConfigError on invalid settings
+export function getBIConfig(): BIConfig {
+  if (cachedConfig) return cachedConfig;
+
+  const authHeader =
+    process.env.BI_QUERY_AUTH_HEADER?.trim() || "Authorization";
+  if (!/^[A-Za-z0-9-]+$/.test(authHeader)) {
+    throw new ConfigError(
+      `BI_QUERY_AUTH_HEADER is not a valid header name: "${authHeader}"`
+    );
+  }
+
+  const retryBaseMs = readInt("BI_QUERY_RETRY_BASE_MS", 500, {
+    min: 0,
+    max: 60_000,
+  });
+
+  cachedConfig = {
+    url: readUrl("BI_QUERY_URL"),
+    sqlUrl: process.env.BI_SQL_URL?.trim() ? readUrl("BI_SQL_URL") : undefined,
+    timeoutMs: readInt("BI_QUERY_TIMEOUT_MS", 60_000, {
+      min: 1_000,
+      max: 600_000,
+    }),
+    maxRetries: readInt("BI_QUERY_MAX_RETRIES", 2, { min: 0, max: 10 }),
+    retryBaseMs,
+    retryMaxMs: readInt("BI_QUERY_RETRY_MAX_MS", 5_000, {
+      min: retryBaseMs,
+      max: 120_000,
+    }),
+    authHeader,
+    authToken: process.env.BI_QUERY_AUTH_TOKEN?.trim() || undefined,
+    maxBodyBytes: readInt("BI_QUERY_MAX_BODY_BYTES", 256 * 1024, {
+      min: 1_024,
+      max: 10 * 1024 * 1024,
+    }),
+    historyTokenBudget: readInt("BI_HISTORY_TOKEN_BUDGET", 4_000, {
+      min: 0,
+      max: 200_000,
+    }),
+    maxRows: readInt("BI_SQL_MAX_ROWS", 10_000, { min: 1, max: 1_000_000 }),
+  };
+
+  return cachedConfig;
+}
+
+let cachedMockConfig: MockBIConfig | null = null;
+
+export function getMockBIConfig(): MockBIConfig {
+  if (cachedMockConfig) return cachedMockConfig;
+
+  cachedMockConfig = {
+    enabled: readBoolean(
+      "MOCK_BI_ENABLED",
+      process.env.NODE_ENV !== "production"
+    ),
+    latencyMs: readInt("MOCK_BI_LATENCY_MS", 400, { min: 0, max: 60_000 }),
+    jitterMs: readInt("MOCK_BI_LATENCY_JITTER_MS", 200, {
+      min: 0,
+      max: 60_000,
+    }),
+    errorRate: readRate("MOCK_BI_ERROR_RATE", 0),
+    errorStatus: readInt("MOCK_BI_ERROR_STATUS", 503, { min: 400, max: 599 }),
+  };
+
+  return cachedMockConfig;
+}
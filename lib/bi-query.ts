@@ -0,0 +1,45 @@
+import { getBIConfig } from "@/lib/bi-config";
+import type { QueryRequestBody } from "@/lib/bi-request";
+import { UpstreamError, postToUpstream } from "@/lib/bi-upstream";
+import { SQLGuardError, assertReadOnly, capRows } from "@/lib/sql-guard";
+import type { APIResponse } from "@/lib/types";
+
+// Data the backend can't show the query for is never passed on
+export const missingSQL = () =>
+  new SQLGuardError("The answer has no SQL to check", "missing_sql");
+
+// Asks the BI backend a question and waits for the whole answer, for
+// /api/bi/query without streaming and for dashboard tile refreshes. The
+// answer's SQL must pass the read-only guard and its rows are capped at
+// BI_SQL_MAX_ROWS.
+export async function askQuestion(
+  body: QueryRequestBody,
+  { correlationId, signal }: { correlationId: string; signal?: AbortSignal }
+): Promise<APIResponse> {
+  const { maxRows } = getBIConfig();
+  const upstream = await postToUpstream(body, {
+    accept: "application/json",
+    correlationId,
+    signal,
+  });
+  const data = await upstream.json().catch(() => {
+    throw new UpstreamError("Invalid response from server", 502);
+  });
+
+  if (typeof data?.sql_query === "string") {
+    assertReadOnly(data.sql_query);
+  } else if (
+    data?.results != null ||
+    data?.formatted_data != null ||
+    data?.insights != null
+  ) {
+    throw missingSQL();
+  }
+  if (Array.isArray(data?.results)) {
+    const { rows, truncated } = capRows(data.results, maxRows);
+    data.results = rows;
+    if (truncated) data.truncated_at = maxRows;
+  }
+
+  return data;
+}
@@ -0,0 +1,264 @@
+import { randomUUID } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { ConfigError } from "@/lib/bi-config";
+import { CLIENT_CLOSED_REQUEST, UpstreamError } from "@/lib/bi-upstream";
+import { SQLGuardError } from "@/lib/sql-guard";
+import {
+  fitConversationContext,
+  isContextTurn,
+  MAX_CONTEXT_TURNS,
+  renderConversationHistory,
+  type ConversationContext,
+} from "@/lib/conversation-context";
+import { UsageLimitError } from "@/lib/usage-limits";
+import { usageLimitResponse } from "@/lib/usage-limiter";
+
+// Request-side helpers for the BI proxy routes: size-capped JSON parsing,
+// body validation, correlation ids and the shared error response.
+
+export class RequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+export type QueryRequestBody = {
+  question: string;
+  // Plain-text history; the chat sends conversation_context instead, and
+  // this is rendered from it before the request goes upstream
+  conversation_history?: string;
+  conversation_context?: ConversationContext;
+  // ISO 639-1 code of the question, e.g. "ar" when it was asked in Arabic
+  language?: string;
+};
+
+export type SQLRequestBody = {
+  sql_query: string;
+  // Set when the results should replace those of a stored answer
+  conversation_id?: string;
+  message_id?: number;
+};
+
+const MAX_QUESTION_LENGTH = 4_000;
+const MAX_SQL_LENGTH = 20_000;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+// Reuse the caller's id when it sends a sane one, otherwise mint a new one
+export function getCorrelationId(request: NextRequest): string {
+  const incoming =
+    request.headers.get("x-correlation-id") ??
+    request.headers.get("x-request-id");
+  return incoming && CORRELATION_ID_PATTERN.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+export async function readJsonBody(
+  request: NextRequest,
+  maxBytes: number
+): Promise<unknown> {
+  // Cheap early rejection when the client declares its size up front
+  const declared = Number(request.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new RequestError(`Request body exceeds ${maxBytes} bytes`, 413);
+  }
+
+  const text = await request.text();
+  if (new TextEncoder().encode(text).byteLength > maxBytes) {
+    throw new RequestError(`Request body exceeds ${maxBytes} bytes`, 413);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestError("Invalid JSON body", 400);
+  }
+}
+
+export function validateQueryBody(body: unknown): QueryRequestBody {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new RequestError("Request body must be a JSON object", 400);
+  }
+
+  const { question, conversation_history, conversation_context, language } =
+    body as Record<string, unknown>;
+
+  if (typeof question !== "string" || !question.trim()) {
+    throw new RequestError("question must be a non-empty string", 400);
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    throw new RequestError(
+      `question must be at most ${MAX_QUESTION_LENGTH} characters`,
+      400
+    );
+  }
+  if (
+    conversation_history !== undefined &&
+    typeof conversation_history !== "string"
+  ) {
+    throw new RequestError("conversation_history must be a string", 400);
+  }
+  let context: ConversationContext | undefined;
+  if (conversation_context !== undefined) {
+    const { turns, omitted_turns } = (conversation_context ?? {}) as {
+      turns?: unknown;
+      omitted_turns?: unknown;
+    };
+    if (!Array.isArray(turns) || !turns.every(isContextTurn)) {
+      throw new RequestError(
+        "conversation_context must be an object with a turns array",
+        400
+      );
+    }
+    if (turns.length > MAX_CONTEXT_TURNS) {
+      throw new RequestError(
+        `conversation_context must have at most ${MAX_CONTEXT_TURNS} turns`,
+        400
+      );
+    }
+    if (
+      omitted_turns !== undefined &&
+      (!Number.isInteger(omitted_turns) || (omitted_turns as number) < 0)
+    ) {
+      throw new RequestError(
+        "conversation_context.omitted_turns must be a non-negative integer",
+        400
+      );
+    }
+    context = { turns, omitted_turns: omitted_turns as number | undefined };
+  }
+  if (
+    language !== undefined &&
+    (typeof language !== "string" || !LANGUAGE_PATTERN.test(language))
+  ) {
+    throw new RequestError("language must be a two-letter ISO 639-1 code", 400);
+  }
+
+  return {
+    question: question.trim(),
+    conversation_history,
+    conversation_context: context,
+    language,
+  };
+}
+
+// Fit the structured history into the token budget, and send the same
+// history as text alongside it for backends that only read the string
+export function fitQueryContext(
+  body: QueryRequestBody,
+  tokenBudget: number
+): QueryRequestBody {
+  if (!body.conversation_context) return body;
+
+  const { turns, omitted_turns: omittedByClient = 0 } =
+    body.conversation_context;
+  const fitted = fitConversationContext(turns, tokenBudget);
+  // Turns the chat already left out count too
+  const context = {
+    ...fitted,
+    omitted_turns: (fitted.omitted_turns ?? 0) + omittedByClient,
+  };
+  return {
+    ...body,
+    conversation_context: context,
+    conversation_history: renderConversationHistory(context),
+  };
+}
+
+export function validateSQLBody(body: unknown): SQLRequestBody {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new RequestError("Request body must be a JSON object", 400);
+  }
+
+  const { sql_query, conversation_id, message_id } = body as Record<
+    string,
+    unknown
+  >;
+
+  if (typeof sql_query !== "string" || !sql_query.trim()) {
+    throw new RequestError("sql_query must be a non-empty string", 400);
+  }
+  if (sql_query.length > MAX_SQL_LENGTH) {
+    throw new RequestError(
+      `sql_query must be at most ${MAX_SQL_LENGTH} characters`,
+      400
+    );
+  }
+  if (conversation_id !== undefined && typeof conversation_id !== "string") {
+    throw new RequestError("conversation_id must be a string", 400);
+  }
+  if (
+    message_id !== undefined &&
+    (!Number.isInteger(message_id) || (message_id as number) < 1)
+  ) {
+    throw new RequestError("message_id must be a positive integer", 400);
+  }
+
+  return {
+    sql_query: sql_query.trim(),
+    conversation_id,
+    message_id: message_id as number | undefined,
+  };
+}
+
+export function errorResponse(error: unknown, correlationId: string) {
+  const headers = { "X-Correlation-ID": correlationId };
+
+  if (error instanceof RequestError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status, headers }
+    );
+  }
+
+  if (error instanceof UsageLimitError) {
+    console.warn(`[${correlationId}] Usage limit hit:`, error.message);
+    return usageLimitResponse(error, headers);
+  }
+
+  // Governance rejections are expected; log them without a stack trace
+  if (error instanceof SQLGuardError) {
+    console.warn(
+      `[${correlationId}] SQL guard rejected a query:`,
+      error.code,
+      error.message
+    );
+    return NextResponse.json(
+      { error: error.message, code: error.code, offender: error.offender },
+      { status: 422, headers }
+    );
+  }
+
+  if (
+    error instanceof UpstreamError &&
+    error.status === CLIENT_CLOSED_REQUEST
+  ) {
+    console.info(`[${correlationId}] Client cancelled the request`);
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status, headers }
+    );
+  }
+
+  console.error(`[${correlationId}] API proxy error:`, error);
+
+  if (error instanceof ConfigError) {
+    return NextResponse.json(
+      { error: "BI backend is not configured" },
+      { status: 500, headers }
+    );
+  }
+  if (error instanceof UpstreamError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.status, headers }
+    );
+  }
+
+  return NextResponse.json(
+    { error: "Internal server error" },
+    { status: 500, headers }
+  );
+}
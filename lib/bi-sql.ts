@@ -0,0 +1,45 @@
+import { getBIConfig } from "@/lib/bi-config";
+import { RequestError } from "@/lib/bi-request";
+import { UpstreamError, postToUpstream } from "@/lib/bi-upstream";
+import { capRows, guardSubmittedSQL } from "@/lib/sql-guard";
+import type { ResultRow } from "@/lib/result-columns";
+
+export type SQLRun = {
+  sql_query: string;
+  results: ResultRow[];
+  truncated_at?: number;
+};
+
+// Runs SQL on the BI backend's SQL endpoint (BI_SQL_URL), for edited
+// queries from the chat and for dashboard tile refreshes. The SQL must pass
+// the read-only guard and gets a LIMIT of BI_SQL_MAX_ROWS when it doesn't
+// set one itself.
+export async function runGuardedSQL(
+  sql: string,
+  correlationId: string
+): Promise<SQLRun> {
+  const { maxRows, sqlUrl } = getBIConfig();
+  if (!sqlUrl) {
+    throw new RequestError("Re-running SQL is not configured", 501);
+  }
+
+  const sqlQuery = guardSubmittedSQL(sql, maxRows);
+
+  const upstream = await postToUpstream(
+    { sql_query: sqlQuery },
+    { accept: "application/json", correlationId, url: sqlUrl }
+  );
+  const data = await upstream.json().catch(() => {
+    throw new UpstreamError("Invalid response from server", 502);
+  });
+  if (!Array.isArray(data?.results)) {
+    throw new UpstreamError("Invalid response from server", 502, data);
+  }
+
+  const { rows, truncated } = capRows<ResultRow>(data.results, maxRows);
+  return {
+    sql_query: sqlQuery,
+    results: rows,
+    truncated_at: truncated ? maxRows : undefined,
+  };
+}
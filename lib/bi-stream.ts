@@ -0,0 +1,155 @@
+import type { APIResponse } from "@/lib/types";
+import type { SQLGuardCode } from "@/lib/sql-guard";
+
+// Streaming protocol between /api/bi/query and the chat. The route answers
+// `Accept: application/x-ndjson` requests with one JSON event per line, in
+// the order the BI backend produces each piece of the answer.
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+export type QueryPhase = "sql" | "rows" | "chart" | "insights";
+
+export type QueryStreamEvent =
+  | { type: "status"; message: string }
+  | { type: "sql"; sql_query: string }
+  | {
+      type: "rows";
+      results: NonNullable<APIResponse["results"]>;
+      // Set when the proxy cut the rows down to BI_SQL_MAX_ROWS
+      truncated_at?: number;
+    }
+  | {
+      type: "chart";
+      visualization?: string;
+      visualization_reason?: string;
+      formatted_data?: APIResponse["formatted_data"];
+    }
+  | { type: "insights"; insights: string }
+  | { type: "done" }
+  | {
+      type: "error";
+      error: string;
+      status?: number;
+      details?: unknown;
+      // Present when the SQL guard rejected the backend's query
+      code?: SQLGuardCode;
+      sql_query?: string;
+    };
+
+export const phaseLabels: Record<QueryPhase, string> = {
+  sql: "SQL query generated",
+  rows: "Rows returned",
+  chart: "Chart ready",
+  insights: "Insights ready",
+};
+
+// Split a (possibly partial) backend payload into phase events. Used both for
+// incremental chunks from a streaming backend and for a single final JSON
+// body, so the chat sees the same event sequence either way.
+export function payloadToEvents(
+  payload: Record<string, unknown>
+): QueryStreamEvent[] {
+  const events: QueryStreamEvent[] = [];
+  const data = payload as APIResponse & {
+    status?: unknown;
+    message?: unknown;
+    phase?: unknown;
+  };
+
+  const status = [data.message, data.status, data.phase].find(
+    (value): value is string => typeof value === "string" && value.length > 0
+  );
+  if (status) {
+    events.push({ type: "status", message: status });
+  }
+  if (typeof data.sql_query === "string" && data.sql_query) {
+    events.push({ type: "sql", sql_query: data.sql_query });
+  }
+  if (Array.isArray(data.results)) {
+    events.push({ type: "rows", results: data.results });
+  }
+  if (data.visualization || data.formatted_data) {
+    events.push({
+      type: "chart",
+      visualization: data.visualization,
+      visualization_reason: data.visualization_reason,
+      formatted_data: data.formatted_data,
+    });
+  }
+  if (typeof data.insights === "string" && data.insights) {
+    events.push({ type: "insights", insights: data.insights });
+  }
+
+  return events;
+}
+
+// Fold one event into the answer the chat is building up
+export function applyStreamEvent(
+  data: APIResponse,
+  event: QueryStreamEvent
+): APIResponse {
+  switch (event.type) {
+    case "sql":
+      return { ...data, sql_query: event.sql_query };
+    case "rows":
+      return {
+        ...data,
+        results: event.results,
+        truncated_at: event.truncated_at,
+      };
+    case "chart":
+      return {
+        ...data,
+        visualization: event.visualization ?? data.visualization,
+        visualization_reason:
+          event.visualization_reason ?? data.visualization_reason,
+        formatted_data: event.formatted_data ?? data.formatted_data,
+      };
+    case "insights":
+      return { ...data, insights: event.insights };
+    default:
+      return data;
+  }
+}
+
+export function encodeEvent(event: QueryStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+// Read a byte stream line by line. Accepts plain NDJSON as well as SSE
+// framing (`data: {...}`), which is what some backends emit instead.
+export async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(":") || trimmed.startsWith("event:")) {
+      return;
+    }
+    onLine(trimmed.startsWith("data:") ? trimmed.slice(5).trim() : trimmed);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(flush);
+    }
+  } catch (error) {
+    // onLine may throw to stop reading; don't leave the source running
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  buffer += decoder.decode();
+  flush(buffer);
+}
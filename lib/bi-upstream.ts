@@ -0,0 +1,128 @@
+import { getBIConfig } from "@/lib/bi-config";
+
+// Thin client for the BI backend: applies the configured timeout, auth
+// header and retry/backoff policy, and tags every call with the caller's
+// correlation id so proxy and backend logs can be joined.
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+// nginx's "client closed request", for calls the caller cancelled
+export const CLIENT_CLOSED_REQUEST = 499;
+
+type UpstreamOptions = {
+  accept: string;
+  correlationId: string;
+  // Defaults to the question endpoint, BI_QUERY_URL
+  url?: string;
+  // Aborting it cancels the call, including a body that is still streaming
+  signal?: AbortSignal;
+};
+
+// Gateway-style failures are worth another attempt; anything else is the
+// backend's considered answer and goes straight back to the client
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number, baseMs: number, maxMs: number) {
+  const exponential = Math.min(maxMs, baseMs * 2 ** attempt);
+  // Full jitter keeps retries from several clients from lining up
+  return Math.round(Math.random() * exponential);
+}
+
+async function readDetails(response: Response) {
+  const text = await response.text().catch(() => "");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text || undefined;
+  }
+}
+
+export async function postToUpstream(
+  body: unknown,
+  { accept, correlationId, url, signal }: UpstreamOptions
+): Promise<Response> {
+  const config = getBIConfig();
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: accept,
+    "X-Correlation-ID": correlationId,
+  };
+  if (config.authToken) {
+    headers[config.authHeader] =
+      config.authHeader.toLowerCase() === "authorization"
+        ? `Bearer ${config.authToken}`
+        : config.authToken;
+  }
+
+  let lastError: UpstreamError | null = null;
+  const cancelled = () =>
+    new UpstreamError("Request cancelled", CLIENT_CLOSED_REQUEST);
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(
+        backoffDelay(attempt - 1, config.retryBaseMs, config.retryMaxMs)
+      );
+    }
+    if (signal?.aborted) throw cancelled();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    const cancel = () => controller.abort();
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    let response: Response | null = null;
+    try {
+      response = await fetch(url ?? config.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw cancelled();
+      lastError = controller.signal.aborted
+        ? new UpstreamError("Upstream request timed out", 504)
+        : new UpstreamError("No response from server", 502, {
+            message: error instanceof Error ? error.message : String(error),
+          });
+    } finally {
+      // Only the wait for headers is bounded; streamed bodies may run longer
+      clearTimeout(timer);
+    }
+
+    if (response?.ok) return response;
+    signal?.removeEventListener("abort", cancel);
+
+    if (response) {
+      lastError = new UpstreamError(
+        "Server error",
+        response.status,
+        await readDetails(response)
+      );
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        throw lastError;
+      }
+    }
+
+    console.warn(
+      `[${correlationId}] BI upstream attempt ${attempt + 1} failed:`,
+      lastError?.status,
+      lastError?.message
+    );
+  }
+
+  throw lastError ?? new UpstreamError("No response from server", 502);
+}
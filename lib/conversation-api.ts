@@ -0,0 +1,79 @@
+import axios from "axios";
+import type { Conversation, ConversationSummary, Message } from "@/lib/types";
+
+// Browser-side helpers for the /api/conversations routes
+
+// Blobs and object URLs cannot be serialized, and the store would drop them
+// anyway, so strip them before they hit the wire.
+function toWireMessage(message: Omit<Message, "id"> | Message) {
+  return {
+    content: message.content,
+    sender: message.sender,
+    timestamp: message.timestamp,
+    parentId: message.parentId,
+    cancelled: message.cancelled,
+    audioData: message.audioData
+      ? { duration: message.audioData.duration }
+      : undefined,
+    transcript: message.transcript,
+    apiData: message.apiData
+      ? { ...message.apiData, preGeneratedAudioUrl: undefined }
+      : undefined,
+  };
+}
+
+export async function fetchConversations(): Promise<ConversationSummary[]> {
+  const response = await axios.get("/api/conversations");
+  return response.data.conversations;
+}
+
+export async function fetchConversation(id: string): Promise<Conversation> {
+  const response = await axios.get(`/api/conversations/${id}`);
+  return response.data.conversation;
+}
+
+export async function createConversation(
+  messages: Message[] = []
+): Promise<Conversation> {
+  const response = await axios.post("/api/conversations", {
+    messages: messages.map(toWireMessage),
+  });
+  return response.data.conversation;
+}
+
+export async function saveMessage(
+  conversationId: string,
+  message: Omit<Message, "id">
+): Promise<Message> {
+  const response = await axios.post(
+    `/api/conversations/${conversationId}/messages`,
+    { message: toWireMessage(message) }
+  );
+  return response.data.message;
+}
+
+// Voice messages are saved before they are transcribed; this adds what was
+// heard once it is known
+export async function saveTranscript(
+  conversationId: string,
+  messageId: number,
+  transcript: string
+): Promise<Message> {
+  const response = await axios.patch(
+    `/api/conversations/${conversationId}/messages/${messageId}`,
+    { transcript }
+  );
+  return response.data.message;
+}
+
+export async function renameConversation(
+  id: string,
+  title: string
+): Promise<ConversationSummary> {
+  const response = await axios.patch(`/api/conversations/${id}`, { title });
+  return response.data.conversation;
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await axios.delete(`/api/conversations/${id}`);
+}
@@ -0,0 +1,75 @@
+import type { Message } from "@/lib/types";
+
+// Conversations are trees. Editing a question or regenerating an answer adds
+// a sibling next to the original instead of replacing it, and the chat shows
+// one branch at a time.
+//
+// Messages point at the one they follow through parentId. Messages saved
+// before branching existed have none and follow the message before them, so
+// old conversations read as a single branch.
+
+export type ConversationTree = {
+  byId: Map<number, Message>;
+  parents: Map<number, number | null>;
+  // Replies in the order they were added; the root messages are under null
+  children: Map<number | null, Message[]>;
+};
+
+export function buildConversationTree(messages: Message[]): ConversationTree {
+  const tree: ConversationTree = {
+    byId: new Map(),
+    parents: new Map(),
+    children: new Map(),
+  };
+
+  messages.forEach((message, index) => {
+    const parentId =
+      message.parentId !== undefined
+        ? message.parentId
+        : index > 0
+        ? messages[index - 1].id
+        : null;
+    tree.byId.set(message.id, message);
+    tree.parents.set(message.id, parentId);
+    tree.children.set(parentId, [
+      ...(tree.children.get(parentId) ?? []),
+      message,
+    ]);
+  });
+
+  return tree;
+}
+
+// The messages from the root down to `id`, inclusive
+export function branchTo(tree: ConversationTree, id: number | null): Message[] {
+  const path: Message[] = [];
+  let message = id === null ? undefined : tree.byId.get(id);
+  // The length check guards against a parent cycle in a corrupted store
+  while (message && path.length < tree.byId.size) {
+    path.unshift(message);
+    const parentId = tree.parents.get(message.id);
+    message = parentId == null ? undefined : tree.byId.get(parentId);
+  }
+  return path;
+}
+
+// The branch on screen: down to `selectedId`, then on through the latest
+// reply at every step. Without a selection that's the latest branch.
+export function activeBranch(
+  tree: ConversationTree,
+  selectedId: number | null
+): Message[] {
+  const path = branchTo(tree, selectedId);
+  let next = tree.children.get(path.at(-1)?.id ?? null)?.at(-1);
+  while (next && path.length < tree.byId.size) {
+    path.push(next);
+    next = tree.children.get(next.id)?.at(-1);
+  }
+  return path;
+}
+
+// The message and the alternatives to it, oldest first
+export function siblingsOf(tree: ConversationTree, id: number): Message[] {
+  const parentId = tree.parents.get(id);
+  return parentId === undefined ? [] : tree.children.get(parentId) ?? [];
+}
@@ -0,0 +1,211 @@
+import type { Message } from "@/lib/types";
+import {
+  inferColumns,
+  type ColumnKind,
+  type ResultRow,
+} from "@/lib/result-columns";
+
+// Structured conversation history for the BI backend. The chat sends the
+// branch on screen as turns, already cut down to MAX_SENT_CONTEXT_TOKENS;
+// /api/bi/query fits them into its own token budget
+// (BI_HISTORY_TOKEN_BUDGET) before forwarding them. The latest turns go in
+// whole and older ones are shortened or left out, so a follow-up such as
+// "break that down by region" still sees the SQL and columns it refers to.
+
+export type ContextColumn = { name: string; type: ColumnKind };
+
+export type ContextTurn = {
+  role: "user" | "assistant";
+  // What was typed, or the answer's insights
+  text?: string;
+  // What transcription heard, for spoken questions
+  transcript?: string;
+  sql_query?: string;
+  columns?: ContextColumn[];
+  row_count?: number;
+  sample_rows?: ResultRow[];
+  // Set on turns that were shortened to fit the budget
+  summarized?: boolean;
+};
+
+export type ConversationContext = {
+  turns: ContextTurn[];
+  // How many of the oldest turns didn't fit at all
+  omitted_turns?: number;
+};
+
+// Most turns a question may carry
+export const MAX_CONTEXT_TURNS = 500;
+// Rough tokens of history the chat sends at most. The proxy fits that into
+// BI_HISTORY_TOKEN_BUDGET; this keeps long conversations well inside its
+// request size limit (BI_QUERY_MAX_BODY_BYTES).
+export const MAX_SENT_CONTEXT_TOKENS = 16_000;
+
+const SAMPLE_ROWS = 5;
+const SUMMARY_CHARS = 200;
+// Characters of JSON per token; close enough for budgeting
+const CHARS_PER_TOKEN = 4;
+
+// Turns for the messages of a branch, oldest first. The welcome messages
+// before the first question and the notes left for stopped questions say
+// nothing about the data, and neither do voice messages that were never
+// transcribed.
+export function toContextTurns(messages: Message[]): ContextTurn[] {
+  const firstQuestion = messages.findIndex(
+    (message) => message.sender === "user"
+  );
+  if (firstQuestion === -1) return [];
+
+  return messages.slice(firstQuestion).flatMap((message): ContextTurn[] => {
+    if (message.cancelled) return [];
+    if (message.sender === "user") {
+      if (!message.audioData) return [{ role: "user", text: message.content }];
+      return message.transcript
+        ? [{ role: "user", transcript: message.transcript }]
+        : [];
+    }
+
+    const apiData = message.apiData;
+    const turn: ContextTurn = {
+      role: "assistant",
+      text: apiData?.insights || message.content,
+    };
+    if (apiData?.sql_query) turn.sql_query = apiData.sql_query;
+    if (apiData?.results?.length) {
+      turn.columns = inferColumns(apiData.results).map(({ key, kind }) => ({
+        name: key,
+        type: kind,
+      }));
+      turn.row_count = apiData.results.length;
+      turn.sample_rows = apiData.results.slice(0, SAMPLE_ROWS);
+    }
+    return [turn];
+  });
+}
+
+// The history the chat sends with a question: the latest turns, with older
+// ones shortened or left out the same way the proxy does it
+export function requestContext(messages: Message[]): ConversationContext {
+  const turns = toContextTurns(messages);
+  const recent = turns.slice(-MAX_CONTEXT_TURNS);
+  const context = fitConversationContext(recent, MAX_SENT_CONTEXT_TOKENS);
+  return {
+    turns: context.turns,
+    omitted_turns: (context.omitted_turns ?? 0) + turns.length - recent.length,
+  };
+}
+
+const isOptional = (value: unknown, type: "string" | "number") =>
+  value === undefined || typeof value === type;
+
+// Shape check for turns arriving from the browser
+export function isContextTurn(value: unknown): value is ContextTurn {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const turn = value as Record<string, unknown>;
+  return (
+    (turn.role === "user" || turn.role === "assistant") &&
+    isOptional(turn.text, "string") &&
+    isOptional(turn.transcript, "string") &&
+    isOptional(turn.sql_query, "string") &&
+    isOptional(turn.row_count, "number") &&
+    (turn.columns === undefined ||
+      (Array.isArray(turn.columns) &&
+        turn.columns.every(
+          (column) =>
+            typeof column?.name === "string" && typeof column?.type === "string"
+        ))) &&
+    (turn.sample_rows === undefined ||
+      (Array.isArray(turn.sample_rows) &&
+        turn.sample_rows.every(
+          (row) => row && typeof row === "object" && !Array.isArray(row)
+        )))
+  );
+}
+
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN);
+}
+
+const shorten = (text: string | undefined) =>
+  text && text.length > SUMMARY_CHARS
+    ? `${text.slice(0, SUMMARY_CHARS - 1)}…`
+    : text;
+
+// Smaller versions of a turn, most detailed first: without its sample
+// rows, then its text cut short with only the shape of its results
+function condensed(turn: ContextTurn): ContextTurn[] {
+  const { sample_rows, ...withoutRows } = turn;
+  const summary: ContextTurn = {
+    role: turn.role,
+    text: shorten(turn.text),
+    transcript: shorten(turn.transcript),
+    columns: turn.columns,
+    row_count: turn.row_count,
+    summarized: true,
+  };
+  return sample_rows
+    ? [{ ...withoutRows, summarized: true }, summary]
+    : [summary];
+}
+
+// Walk back from the latest turn, giving each the most detailed version
+// that still fits; once not even a summary fits, the rest is left out
+export function fitConversationContext(
+  turns: ContextTurn[],
+  tokenBudget: number
+): ConversationContext {
+  const kept: ContextTurn[] = [];
+  let remaining = tokenBudget;
+
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const fitting = [turns[index], ...condensed(turns[index])].find(
+      (version) => estimateTokens(version) <= remaining
+    );
+    if (!fitting) return { turns: kept, omitted_turns: index + 1 };
+    kept.unshift(fitting);
+    remaining -= estimateTokens(fitting);
+  }
+
+  return { turns: kept, omitted_turns: 0 };
+}
+
+// The same history as plain text, for backends that read the older
+// conversation_history string
+export function renderConversationHistory({
+  turns,
+  omitted_turns,
+}: ConversationContext): string {
+  const blocks = turns.map((turn) => {
+    const lines =
+      turn.role === "user"
+        ? [
+            turn.transcript !== undefined
+              ? `User (spoken): ${turn.transcript}`
+              : `User: ${turn.text ?? ""}`,
+          ]
+        : [`Assistant: ${turn.text ?? ""}`];
+
+    if (turn.sql_query) lines.push(`SQL: ${turn.sql_query}`);
+    if (turn.columns?.length) {
+      const columns = turn.columns
+        .map(({ name, type }) => `${name} (${type})`)
+        .join(", ");
+      lines.push(`Columns: ${columns}; ${turn.row_count ?? "?"} rows`);
+    }
+    turn.sample_rows?.forEach((row) =>
+      lines.push(`Row: ${JSON.stringify(row)}`)
+    );
+    return lines.join("\n");
+  });
+
+  if (omitted_turns) {
+    blocks.unshift(
+      `(${omitted_turns} earlier turn${
+        omitted_turns === 1 ? "" : "s"
+      } left out)`
+    );
+  }
+  return blocks.join("\n\n");
+}
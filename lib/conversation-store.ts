@@ -0,0 +1,255 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type {
+  APIResponse,
+  Conversation,
+  ConversationSummary,
+  Message,
+} from "@/lib/types";
+import { createJsonFileStore } from "@/lib/json-file-store";
+
+// File-backed conversation store. Everything lives in a single JSON document;
+// see lib/json-file-store.ts for how writes are serialized.
+//
+// Every conversation belongs to the user who started it. All lookups take
+// the signed-in user's id, and someone else's conversation reads as missing.
+// Conversations saved before owners were recorded belong to nobody.
+
+type StoredConversation = Conversation & {
+  ownerId?: string;
+  nextMessageId: number;
+};
+
+type StoreFile = {
+  conversations: StoredConversation[];
+};
+
+const STORE_PATH =
+  process.env.CONVERSATION_STORE_PATH ||
+  path.join(process.cwd(), ".data", "conversations.json");
+
+const MAX_TITLE_LENGTH = 80;
+
+const store = createJsonFileStore<StoreFile>(STORE_PATH, () => ({
+  conversations: [],
+}));
+
+function toConversation(conversation: StoredConversation): Conversation {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messages: conversation.messages,
+  };
+}
+
+function toSummary(conversation: StoredConversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+  };
+}
+
+// Drop everything that only makes sense inside the browser session that
+// produced it (blobs, object URLs, typing flags).
+function sanitizeMessage(message: Omit<Message, "id">, id: number): Message {
+  const stored: Message = {
+    id,
+    content: message.content,
+    sender: message.sender,
+    timestamp: message.timestamp,
+  };
+
+  if (message.cancelled) {
+    stored.cancelled = true;
+  }
+  if (message.audioData) {
+    stored.audioData = { duration: message.audioData.duration };
+    if (typeof message.transcript === "string") {
+      stored.transcript = message.transcript;
+    }
+  }
+  if (message.apiData) {
+    stored.apiData = { ...message.apiData, preGeneratedAudioUrl: undefined };
+  }
+
+  return stored;
+}
+
+function deriveTitle(messages: Message[]): string {
+  const firstQuestion = messages.find(
+    (msg) => msg.sender === "user" && !msg.audioData && msg.content.trim()
+  );
+  if (!firstQuestion) return "New conversation";
+
+  const text = firstQuestion.content.trim().replace(/\s+/g, " ");
+  return text.length > MAX_TITLE_LENGTH
+    ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : text;
+}
+
+function findOwned(
+  conversations: StoredConversation[],
+  ownerId: string,
+  id: string
+): StoredConversation | undefined {
+  return conversations.find((c) => c.id === id && c.ownerId === ownerId);
+}
+
+export async function listConversations(
+  ownerId: string
+): Promise<ConversationSummary[]> {
+  const { conversations } = await store.read();
+  return conversations
+    .filter((c) => c.ownerId === ownerId)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getConversation(
+  ownerId: string,
+  id: string
+): Promise<Conversation | null> {
+  const { conversations } = await store.read();
+  const conversation = findOwned(conversations, ownerId, id);
+  return conversation ? toConversation(conversation) : null;
+}
+
+export function createConversation(
+  ownerId: string,
+  initialMessages: Omit<Message, "id">[] = [],
+  title?: string
+): Promise<Conversation> {
+  return store.mutate((data) => {
+    const now = new Date().toISOString();
+    const messages = initialMessages.map((msg, index) =>
+      sanitizeMessage(msg, index + 1)
+    );
+
+    const conversation: StoredConversation = {
+      id: randomUUID(),
+      ownerId,
+      title: title?.trim() || deriveTitle(messages),
+      createdAt: now,
+      updatedAt: now,
+      messages,
+      nextMessageId: messages.length + 1,
+    };
+
+    data.conversations.push(conversation);
+    return toConversation(conversation);
+  });
+}
+
+export function appendMessage(
+  ownerId: string,
+  conversationId: string,
+  message: Omit<Message, "id">
+): Promise<Message | null> {
+  return store.mutate((data) => {
+    const conversation = findOwned(data.conversations, ownerId, conversationId);
+    if (!conversation) return null;
+
+    const stored = sanitizeMessage(message, conversation.nextMessageId);
+    // Replying to an earlier message starts a branch from there. Unknown
+    // parents are dropped, which makes the message follow the last one.
+    if (
+      message.parentId === null ||
+      conversation.messages.some((m) => m.id === message.parentId)
+    ) {
+      stored.parentId = message.parentId;
+    }
+    conversation.nextMessageId += 1;
+    conversation.messages.push(stored);
+    conversation.updatedAt = new Date().toISOString();
+
+    // Replace the placeholder title once the first real question arrives
+    if (conversation.title === "New conversation") {
+      conversation.title = deriveTitle(conversation.messages);
+    }
+
+    return stored;
+  });
+}
+
+// Swap in the results of user-edited SQL. The backend's own query is kept
+// in original_sql_query the first time, and the rendered chart image is
+// dropped because it no longer matches the rows.
+export function attachRerunResults(
+  ownerId: string,
+  conversationId: string,
+  messageId: number,
+  {
+    sql_query,
+    results,
+    truncated_at,
+  }: Pick<APIResponse, "sql_query" | "results" | "truncated_at">
+): Promise<Message | null> {
+  return store.mutate((data) => {
+    const conversation = findOwned(data.conversations, ownerId, conversationId);
+    const message = conversation?.messages.find((m) => m.id === messageId);
+    if (!conversation || !message?.apiData) return null;
+
+    message.apiData = {
+      ...message.apiData,
+      original_sql_query:
+        message.apiData.original_sql_query ?? message.apiData.sql_query,
+      sql_query,
+      results,
+      truncated_at,
+      formatted_data: undefined,
+      sql_rejection: undefined,
+    };
+    conversation.updatedAt = new Date().toISOString();
+    return message;
+  });
+}
+
+export function setTranscript(
+  ownerId: string,
+  conversationId: string,
+  messageId: number,
+  transcript: string
+): Promise<Message | null> {
+  return store.mutate((data) => {
+    const conversation = findOwned(data.conversations, ownerId, conversationId);
+    const message = conversation?.messages.find((m) => m.id === messageId);
+    if (!conversation || !message?.audioData) return null;
+
+    message.transcript = transcript;
+    conversation.updatedAt = new Date().toISOString();
+    return message;
+  });
+}
+
+export function renameConversation(
+  ownerId: string,
+  id: string,
+  title: string
+): Promise<ConversationSummary | null> {
+  return store.mutate((data) => {
+    const conversation = findOwned(data.conversations, ownerId, id);
+    if (!conversation) return null;
+
+    conversation.title = title.trim().slice(0, MAX_TITLE_LENGTH);
+    conversation.updatedAt = new Date().toISOString();
+    return toSummary(conversation);
+  });
+}
+
+export function deleteConversation(
+  ownerId: string,
+  id: string
+): Promise<boolean> {
+  return store.mutate((data) => {
+    const before = data.conversations.length;
+    data.conversations = data.conversations.filter(
+      (c) => c.id !== id || c.ownerId !== ownerId
+    );
+    return data.conversations.length < before;
+  });
+}
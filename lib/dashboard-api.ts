@@ -0,0 +1,53 @@
+import axios from "axios";
+import type {
+  DashboardTile,
+  DashboardTileSize,
+  DashboardTileView,
+} from "@/lib/types";
+
+// Browser-side helpers for the /api/dashboard routes
+
+export type PinRequest = {
+  title?: string;
+  question: string;
+  sqlQuery?: string;
+  view: DashboardTileView;
+  snapshot: DashboardTile["snapshot"];
+  source?: DashboardTile["source"];
+};
+
+export async function fetchTiles(): Promise<DashboardTile[]> {
+  const response = await axios.get("/api/dashboard/tiles");
+  return response.data.tiles;
+}
+
+export async function pinTile(request: PinRequest): Promise<DashboardTile> {
+  const response = await axios.post("/api/dashboard/tiles", request);
+  return response.data.tile;
+}
+
+export async function updateTile(
+  id: string,
+  update: Partial<Pick<DashboardTile, "title" | "view" | "refreshIntervalSec">>
+): Promise<DashboardTile> {
+  const response = await axios.patch(`/api/dashboard/tiles/${id}`, update);
+  return response.data.tile;
+}
+
+export async function removeTile(id: string): Promise<void> {
+  await axios.delete(`/api/dashboard/tiles/${id}`);
+}
+
+export async function saveLayout(
+  layout: { id: string; size: DashboardTileSize }[]
+): Promise<DashboardTile[]> {
+  const response = await axios.put("/api/dashboard/layout", { layout });
+  return response.data.tiles;
+}
+
+// Run the tile's stored SQL (or question) again; the server saves and
+// returns the result
+export async function refreshTile(tile: DashboardTile): Promise<DashboardTile> {
+  const response = await axios.post(`/api/dashboard/tiles/${tile.id}/refresh`);
+  return response.data.tile;
+}
@@ -0,0 +1,39 @@
+import type { DashboardTileSize, DashboardTileView } from "@/lib/types";
+
+// Grid geometry shared by the dashboard store and the Home page
+
+export const DASHBOARD_COLUMNS = 4;
+export const MAX_TILE_HEIGHT = 3;
+// Height of one grid row in pixels
+export const TILE_ROW_HEIGHT = 200;
+
+export const DEFAULT_TILE_SIZE: Record<DashboardTileView, DashboardTileSize> = {
+  chart: { w: 2, h: 2 },
+  table: { w: 2, h: 2 },
+};
+
+// Every automatic refresh counts against the daily question quota
+// (QUOTA_QUERY_PER_DAY), so tiles refresh at most this often
+export const MIN_REFRESH_INTERVAL_SEC = 5 * 60;
+
+// Choices offered for automatic refresh, in seconds (null = manual only)
+export const REFRESH_INTERVALS: { value: number | null; label: string }[] = [
+  { value: null, label: "Manual" },
+  { value: MIN_REFRESH_INTERVAL_SEC, label: "Every 5 minutes" },
+  { value: 15 * 60, label: "Every 15 minutes" },
+  { value: 60 * 60, label: "Every hour" },
+];
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+export function clampTileSize({ w, h }: DashboardTileSize): DashboardTileSize {
+  return {
+    w: clamp(w, 1, DASHBOARD_COLUMNS),
+    h: clamp(h, 1, MAX_TILE_HEIGHT),
+  };
+}
+
+export function isRefreshInterval(value: unknown): value is number | null {
+  return REFRESH_INTERVALS.some((option) => option.value === value);
+}
@@ -0,0 +1,159 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type { DashboardTile, DashboardTileSize } from "@/lib/types";
+import { createJsonFileStore } from "@/lib/json-file-store";
+import {
+  DEFAULT_TILE_SIZE,
+  MIN_REFRESH_INTERVAL_SEC,
+  clampTileSize,
+  isRefreshInterval,
+} from "@/lib/dashboard-layout";
+
+// File-backed store for the Home dashboard. Tiles are kept in grid order,
+// so rearranging is just rewriting the array.
+//
+// Each user has a dashboard of their own: tiles record who pinned them and
+// every function takes the signed-in user's id. Tiles pinned before owners
+// were recorded belong to nobody.
+
+type StoredTile = DashboardTile & {
+  ownerId?: string;
+};
+
+type StoreFile = {
+  tiles: StoredTile[];
+};
+
+export type NewDashboardTile = Pick<
+  DashboardTile,
+  "title" | "question" | "sqlQuery" | "view" | "snapshot" | "source"
+> &
+  Partial<Pick<DashboardTile, "size" | "refreshIntervalSec">>;
+
+export type DashboardTileUpdate = Partial<
+  Pick<
+    DashboardTile,
+    | "title"
+    | "view"
+    | "sqlQuery"
+    | "refreshIntervalSec"
+    | "snapshot"
+    | "refreshedAt"
+  >
+>;
+
+const STORE_PATH =
+  process.env.DASHBOARD_STORE_PATH ||
+  path.join(process.cwd(), ".data", "dashboard.json");
+
+const MAX_TITLE_LENGTH = 80;
+
+const store = createJsonFileStore<StoreFile>(STORE_PATH, () => ({
+  tiles: [],
+}));
+
+// Tiles saved with an interval that is no longer offered refresh as often
+// as is still allowed
+function toTile(stored: StoredTile): DashboardTile {
+  const tile = { ...stored };
+  delete tile.ownerId;
+  if (!isRefreshInterval(tile.refreshIntervalSec)) {
+    tile.refreshIntervalSec = MIN_REFRESH_INTERVAL_SEC;
+  }
+  return tile;
+}
+
+export async function listTiles(ownerId: string): Promise<DashboardTile[]> {
+  const { tiles } = await store.read();
+  return tiles.filter((t) => t.ownerId === ownerId).map(toTile);
+}
+
+export async function getTile(
+  ownerId: string,
+  id: string
+): Promise<DashboardTile | null> {
+  const { tiles } = await store.read();
+  const tile = tiles.find((t) => t.id === id && t.ownerId === ownerId);
+  return tile ? toTile(tile) : null;
+}
+
+export function createTile(
+  ownerId: string,
+  input: NewDashboardTile
+): Promise<DashboardTile> {
+  return store.mutate((data) => {
+    const now = new Date().toISOString();
+    const tile: StoredTile = {
+      id: randomUUID(),
+      ownerId,
+      title: input.title.trim().slice(0, MAX_TITLE_LENGTH),
+      question: input.question,
+      sqlQuery: input.sqlQuery,
+      view: input.view,
+      size: clampTileSize(input.size ?? DEFAULT_TILE_SIZE[input.view]),
+      refreshIntervalSec: input.refreshIntervalSec ?? null,
+      snapshot: input.snapshot,
+      refreshedAt: now,
+      source: input.source,
+      createdAt: now,
+    };
+
+    data.tiles.push(tile);
+    return toTile(tile);
+  });
+}
+
+export function updateTile(
+  ownerId: string,
+  id: string,
+  update: DashboardTileUpdate
+): Promise<DashboardTile | null> {
+  return store.mutate((data) => {
+    const tile = data.tiles.find((t) => t.id === id && t.ownerId === ownerId);
+    if (!tile) return null;
+
+    Object.assign(tile, update);
+    if (update.title !== undefined) {
+      tile.title = update.title.trim().slice(0, MAX_TITLE_LENGTH);
+    }
+    return toTile(tile);
+  });
+}
+
+export function deleteTile(ownerId: string, id: string): Promise<boolean> {
+  return store.mutate((data) => {
+    const before = data.tiles.length;
+    data.tiles = data.tiles.filter((t) => t.id !== id || t.ownerId !== ownerId);
+    return data.tiles.length < before;
+  });
+}
+
+// Apply a new order and sizes to the user's tiles. Tiles missing from the
+// layout (pinned from another tab in the meantime) keep their place at the
+// end; other users' tiles are left where they are.
+export function saveLayout(
+  ownerId: string,
+  layout: { id: string; size: DashboardTileSize }[]
+): Promise<DashboardTile[]> {
+  return store.mutate((data) => {
+    const others = data.tiles.filter((tile) => tile.ownerId !== ownerId);
+    const byId = new Map(
+      data.tiles
+        .filter((tile) => tile.ownerId === ownerId)
+        .map((tile) => [tile.id, tile])
+    );
+    const ordered: StoredTile[] = [];
+
+    for (const { id, size } of layout) {
+      const tile = byId.get(id);
+      if (!tile) continue;
+      tile.size = clampTileSize(size);
+      ordered.push(tile);
+      byId.delete(id);
+    }
+
+    const tiles = [...ordered, ...byId.values()];
+    data.tiles = [...others, ...tiles];
+    return tiles.map(toTile);
+  });
+}
@@ -0,0 +1,165 @@
+import type { ResultRow } from "@/lib/result-columns";
+
+// Client-side exports of `apiData.results`. Every format keeps the backend's
+// column order and carries the question and SQL alongside the rows.
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export type ExportSource = {
+  results: ResultRow[];
+  question?: string;
+  sqlQuery?: string;
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+// Column order of the first row, plus any keys that only appear later
+export function exportColumns(results: ResultRow[]): string[] {
+  const columns: string[] = [];
+  for (const row of results) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// e.g. "whats-the-sales-in-the-last-month-20261019-143205.csv"
+export function exportFileName(
+  question: string | undefined,
+  format: ExportFormat,
+  date = new Date()
+): string {
+  const slug =
+    (question ?? "")
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .replace(/['’]/g, "")
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60)
+      .replace(/-+$/, "") || "query-results";
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate()
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${slug}-${stamp}.${format}`;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+
+  // Stop spreadsheets from evaluating text cells as formulas
+  if (
+    typeof value === "string" &&
+    /^[=+\-@\t\r]/.test(text) &&
+    Number.isNaN(Number(text))
+  ) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The byte order mark tells Excel the file is UTF-8; without it non-ASCII
+// text opens garbled
+export function toCSV(
+  { results, question, sqlQuery }: ExportSource,
+  exportedAt = new Date()
+): string {
+  const columns = exportColumns(results);
+  const comment = (text: string) =>
+    text
+      .split(/\r?\n/)
+      .map((line) => `# ${line}`)
+      .join("\r\n");
+
+  const header = [
+    question && comment(`Question: ${question}`),
+    sqlQuery && comment(`SQL:\n${sqlQuery}`),
+    comment(`Exported: ${exportedAt.toISOString()}`),
+  ].filter(Boolean);
+
+  const lines = [
+    columns.map(csvCell).join(","),
+    ...results.map((row) => columns.map((key) => csvCell(row[key])).join(",")),
+  ];
+
+  return `\uFEFF${[...header, ...lines, ""].join("\r\n")}`;
+}
+
+export function toJSON(
+  { results, question, sqlQuery }: ExportSource,
+  exportedAt = new Date()
+): string {
+  return JSON.stringify(
+    {
+      question: question ?? null,
+      sql_query: sqlQuery ?? null,
+      exported_at: exportedAt.toISOString(),
+      columns: exportColumns(results),
+      rows: results,
+    },
+    null,
+    2
+  );
+}
+
+export async function toXLSX(
+  { results, question, sqlQuery }: ExportSource,
+  exportedAt = new Date()
+): Promise<Blob> {
+  // Only load the spreadsheet writer when someone actually exports
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const columns = exportColumns(results);
+
+  return writeXlsxFile([
+    {
+      sheet: "Results",
+      data: [
+        columns,
+        ...results.map((row) => columns.map((key) => row[key] ?? null)),
+      ],
+    },
+    {
+      sheet: "Metadata",
+      data: [
+        ["Question", question ?? ""],
+        ["SQL", sqlQuery ?? ""],
+        ["Exported", exportedAt.toISOString()],
+        ["Rows", results.length],
+      ],
+    },
+  ]).toBlob();
+}
+
+export async function exportResults(
+  source: ExportSource,
+  format: ExportFormat
+) {
+  const exportedAt = new Date();
+  const content =
+    format === "csv"
+      ? toCSV(source, exportedAt)
+      : format === "json"
+      ? toJSON(source, exportedAt)
+      : await toXLSX(source, exportedAt);
+
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = exportFileName(source.question, format, exportedAt);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
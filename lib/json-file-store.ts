@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// A JSON document on disk with serialized writes. Mutations run one at a
+// time through a promise chain, so concurrent requests never interleave a
+// read-modify-write cycle, and every write goes through a temp file so a
+// crash never leaves half a document behind.
+
+export type JsonFileStore<T> = {
+  read: () => Promise<T>;
+  mutate: <R>(fn: (data: T) => R | Promise<R>) => Promise<R>;
+};
+
+export function createJsonFileStore<T>(
+  filePath: string,
+  empty: () => T
+): JsonFileStore<T> {
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  async function readFile(): Promise<T> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return empty();
+      }
+      throw error;
+    }
+  }
+
+  async function writeFile(data: T) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  return {
+    // Waits for pending writes so readers see their own updates
+    async read() {
+      await writeQueue;
+      return readFile();
+    },
+
+    mutate(fn) {
+      const run = writeQueue.then(async () => {
+        const data = await readFile();
+        const result = await fn(data);
+        await writeFile(data);
+        return result;
+      });
+      // Keep the queue alive even if this mutation fails
+      writeQueue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// Script-based language hints for text the app didn't get a language for
+// (typed questions, answers, table cells). Transcripts carry the language
+// Whisper detected and should use that instead.
+
+// Arabic, Arabic Supplement/Extended-A and the presentation forms
+const ARABIC_LETTERS =
+  /[\u0600-\u06ff\u0750-\u077f\u08a0-\u08ff\ufb50-\ufdff\ufe70-\ufeff]/g;
+const LATIN_LETTERS = /[A-Za-z\u00c0-\u024f]/g;
+
+const RTL_LANGUAGES = new Set(["ar", "fa", "ur", "he"]);
+
+export type TextDirection = "ltr" | "rtl";
+
+// "ar" when Arabic script dominates, null when the script doesn't tell
+export function detectLanguage(text: string): string | null {
+  const arabic = text.match(ARABIC_LETTERS)?.length ?? 0;
+  const latin = text.match(LATIN_LETTERS)?.length ?? 0;
+  return arabic > 0 && arabic >= latin ? "ar" : null;
+}
+
+export function isRTLLanguage(language: string | null | undefined): boolean {
+  return !!language && RTL_LANGUAGES.has(language);
+}
+
+export function textDirection(
+  text: string,
+  language?: string | null
+): TextDirection {
+  return isRTLLanguage(language ?? detectLanguage(text)) ? "rtl" : "ltr";
+}
@@ -0,0 +1,316 @@
+import type { APIResponse } from "@/lib/types";
+import { renderChartBase64 } from "@/lib/mock-bi/png";
+
+// Canned answers for the mock BI backend, matched against the question in
+// order. The last fixture matches everything, so every question gets a reply.
+
+type MockFixture = {
+  name: string;
+  pattern: RegExp;
+  response?: Omit<APIResponse, "formatted_data" | "preGeneratedAudioUrl">;
+  // Column plotted into formatted_data.image_base64
+  chartValueKey?: string;
+  error?: { status: number; body: Record<string, unknown> };
+  extraLatencyMs?: number;
+};
+
+const fixtures: MockFixture[] = [
+  {
+    name: "injected-error",
+    pattern: /\b(simulate|trigger)\s+(an?\s+)?(error|failure|outage)\b/i,
+    error: {
+      status: 500,
+      body: { detail: "Mock backend: injected failure" },
+    },
+  },
+  {
+    name: "injected-slow",
+    pattern: /\b(simulate|trigger)\s+(a\s+)?(slow|timeout)\b/i,
+    extraLatencyMs: 15_000,
+    response: {
+      sql_query: "SELECT pg_sleep(15);",
+      results: [{ status: "finished after a long wait" }],
+      visualization: "table",
+      insights: "This answer was deliberately delayed by the mock backend.",
+    },
+  },
+  {
+    // Exercises the proxy's read-only SQL guard
+    name: "injected-unsafe-sql",
+    pattern:
+      /\b(simulate|trigger)\s+(an?\s+)?(unsafe|write|destructive)\s+query\b/i,
+    response: {
+      sql_query:
+        "DELETE FROM sales\nWHERE order_date < now() - interval '5 years'\nRETURNING region, amount;",
+      results: [{ region: "Dubai", amount: 120 }],
+      visualization: "table",
+      insights: "Old sales rows were removed.",
+    },
+  },
+  {
+    name: "sales-last-month",
+    pattern: /\bsales\b.*\b(last|previous)\s+month\b/i,
+    chartValueKey: "total_sales",
+    response: {
+      sql_query:
+        "SELECT region, SUM(amount) AS total_sales, COUNT(*) AS orders\nFROM sales\nWHERE order_date >= date_trunc('month', now()) - interval '1 month'\n  AND order_date < date_trunc('month', now())\nGROUP BY region\nORDER BY total_sales DESC;",
+      results: [
+        { region: "Dubai", total_sales: 1284500.5, orders: 3120 },
+        { region: "Abu Dhabi", total_sales: 986210.25, orders: 2410 },
+        { region: "Sharjah", total_sales: 512330, orders: 1388 },
+        { region: "Al Ain", total_sales: 301875.75, orders: 902 },
+        { region: "Ras Al Khaimah", total_sales: 188420, orders: 611 },
+      ],
+      visualization: "bar",
+      visualization_reason:
+        "A bar chart compares total sales across a handful of regions.",
+      insights:
+        "## Sales last month\n\n- **Total sales** reached **3.27M**, across 8,431 orders.\n- **Dubai** led with 39% of revenue, followed by Abu Dhabi at 30%.\n- Ras Al Khaimah is the smallest region but grew fastest month over month.\n\n> Consider shifting promotional budget toward Sharjah, where order volume is high but basket size lags.",
+    },
+  },
+  {
+    name: "revenue-trends",
+    pattern: /\brevenue\b.*\b(trend|over time|monthly|growth)s?\b/i,
+    chartValueKey: "revenue",
+    response: {
+      sql_query:
+        "SELECT to_char(order_date, 'YYYY-MM') AS month, SUM(amount) AS revenue, SUM(amount) / LAG(SUM(amount)) OVER (ORDER BY to_char(order_date, 'YYYY-MM')) - 1 AS growth_pct\nFROM sales\nWHERE order_date >= now() - interval '12 months'\nGROUP BY month\nORDER BY month;",
+      results: [
+        { month: "2025-11", revenue: 2810400, growth_pct: 0.0 },
+        { month: "2025-12", revenue: 3322150, growth_pct: 0.182 },
+        { month: "2026-01", revenue: 2655900, growth_pct: -0.201 },
+        { month: "2026-02", revenue: 2712300, growth_pct: 0.021 },
+        { month: "2026-03", revenue: 3015780, growth_pct: 0.112 },
+        { month: "2026-04", revenue: 3120045, growth_pct: 0.035 },
+        { month: "2026-05", revenue: 3388610, growth_pct: 0.086 },
+        { month: "2026-06", revenue: 2998400, growth_pct: -0.115 },
+        { month: "2026-07", revenue: 3104250, growth_pct: 0.035 },
+        { month: "2026-08", revenue: 3276900, growth_pct: 0.056 },
+        { month: "2026-09", revenue: 3412880, growth_pct: 0.041 },
+        { month: "2026-10", revenue: 3273336.5, growth_pct: -0.041 },
+      ],
+      visualization: "line",
+      visualization_reason:
+        "Monthly revenue is a time series, best read as a line.",
+      insights:
+        "## Revenue trends\n\n- Revenue grew **16%** over the last twelve months.\n- **December** peaked seasonally, followed by the usual January dip.\n- Since March, growth has been steady at roughly **4% per month**.",
+    },
+  },
+  {
+    name: "quarter-performance",
+    pattern: /\b(quarter|quarterly|q[1-4])\b/i,
+    chartValueKey: "actual",
+    response: {
+      sql_query:
+        "SELECT metric, target, actual, actual / target AS attainment\nFROM kpi_quarterly\nWHERE quarter = date_trunc('quarter', now())\nORDER BY metric;",
+      results: [
+        {
+          metric: "Revenue",
+          target: 9500000,
+          actual: 9787216,
+          attainment: 1.03,
+        },
+        {
+          metric: "New customers",
+          target: 1800,
+          actual: 1692,
+          attainment: 0.94,
+        },
+        { metric: "Orders", target: 24000, actual: 25311, attainment: 1.055 },
+        { metric: "Returns", target: 900, actual: 812, attainment: 0.902 },
+      ],
+      visualization: "bar",
+      visualization_reason: "Targets and actuals compare best side by side.",
+      insights:
+        "## Quarter performance\n\n- Revenue is **3% above target**.\n- New customer acquisition is **6% behind**; everything else is on track.\n- Returns are below the ceiling, which is a good sign for product quality.",
+    },
+  },
+  {
+    name: "top-products",
+    pattern: /\b(top|best)[\s-]+(selling\s+)?products?\b/i,
+    chartValueKey: "units_sold",
+    response: {
+      sql_query:
+        "SELECT p.name AS product, SUM(s.quantity) AS units_sold, SUM(s.amount) AS revenue\nFROM sales s JOIN products p ON p.id = s.product_id\nGROUP BY p.name\nORDER BY units_sold DESC\nLIMIT 5;",
+      results: [
+        { product: "Arabic Coffee 500g", units_sold: 18420, revenue: 552600 },
+        { product: "Dates Gift Box", units_sold: 12105, revenue: 847350 },
+        { product: "Saffron 5g", units_sold: 9870, revenue: 394800 },
+        { product: "Rose Water 250ml", units_sold: 8533, revenue: 102396 },
+        { product: "Oud Incense", units_sold: 6102, revenue: 427140 },
+      ],
+      visualization: "bar",
+      visualization_reason: "Ranking products by volume suits a bar chart.",
+      insights:
+        "## Top selling products\n\n- **Arabic Coffee** sells the most units, but **Dates Gift Box** earns the most revenue.\n- The top five products account for **41%** of units sold.",
+    },
+  },
+  {
+    name: "category-share",
+    pattern: /\b(share|breakdown|split|mix)\b.*\b(category|categories)\b/i,
+    chartValueKey: "revenue",
+    response: {
+      sql_query:
+        "SELECT category, SUM(amount) AS revenue\nFROM sales\nGROUP BY category\nORDER BY revenue DESC;",
+      results: [
+        { category: "Beverages", revenue: 1204300 },
+        { category: "Gifts", revenue: 988120 },
+        { category: "Spices", revenue: 612450 },
+        { category: "Home", revenue: 468466.5 },
+      ],
+      visualization: "pie",
+      visualization_reason: "Parts of a whole read best as a pie chart.",
+      insights:
+        "## Category mix\n\n- **Beverages** make up just over a third of revenue.\n- **Home** is the smallest category at 14%.",
+    },
+  },
+  {
+    name: "price-vs-volume",
+    pattern: /\bprice\b.*\b(volume|quantity|units)\b/i,
+    chartValueKey: "units_sold",
+    response: {
+      sql_query:
+        "SELECT p.name AS product, p.price, SUM(s.quantity) AS units_sold\nFROM sales s JOIN products p ON p.id = s.product_id\nGROUP BY p.name, p.price;",
+      results: [
+        { product: "Rose Water 250ml", price: 12, units_sold: 8533 },
+        { product: "Arabic Coffee 500g", price: 30, units_sold: 18420 },
+        { product: "Saffron 5g", price: 40, units_sold: 9870 },
+        { product: "Oud Incense", price: 70, units_sold: 6102 },
+        { product: "Dates Gift Box", price: 70, units_sold: 12105 },
+      ],
+      visualization: "scatter",
+      visualization_reason: "Two numeric measures are compared per product.",
+      insights:
+        "## Price vs volume\n\n- There is **no strong link** between price and volume.\n- Premium gift items sell well despite higher prices.",
+    },
+  },
+  {
+    name: "fallback",
+    pattern: /[\s\S]*/,
+    chartValueKey: "orders",
+    response: {
+      sql_query:
+        "SELECT channel, COUNT(*) AS orders\nFROM sales\nWHERE order_date >= now() - interval '30 days'\nGROUP BY channel\nORDER BY orders DESC;",
+      results: [
+        { channel: "Online", orders: 4210 },
+        { channel: "Retail", orders: 3188 },
+        { channel: "Wholesale", orders: 1033 },
+      ],
+      visualization: "bar",
+      visualization_reason: "A small categorical comparison.",
+      insights:
+        "## Orders by channel\n\n- **Online** is the largest channel with 50% of orders.\n- This is a mock answer; ask about sales, revenue trends, quarter performance or top products for richer fixtures.",
+    },
+  },
+];
+
+export type MockAnswer =
+  | { kind: "error"; status: number; body: Record<string, unknown> }
+  | { kind: "ok"; response: APIResponse; extraLatencyMs: number };
+
+export function answerQuestion(question: string): MockAnswer {
+  const fixture = fixtures.find((f) => f.pattern.test(question))!;
+
+  if (fixture.error) {
+    return { kind: "error", ...fixture.error };
+  }
+
+  const response: APIResponse = { ...fixture.response };
+  if (fixture.chartValueKey && response.results) {
+    const values = response.results.map((row) =>
+      Number(row[fixture.chartValueKey!] ?? 0)
+    );
+    response.formatted_data = {
+      image_base64: renderChartBase64(values, response.visualization),
+    };
+  }
+
+  return {
+    kind: "ok",
+    response,
+    extraLatencyMs: fixture.extraLatencyMs ?? 0,
+  };
+}
+
+// Conditions the mock can apply to fixture rows: `col > 100`, `col = 'x'`
+const CONDITION_PATTERN =
+  /\b(\w+)\s*(=|!=|<>|>=|<=|>|<)\s*('(?:[^']|'')*'|-?\d+(?:\.\d+)?)/g;
+
+function compareValues(left: unknown, operator: string, right: string) {
+  const isText = right.startsWith("'");
+  const order = isText
+    ? String(left).localeCompare(right.slice(1, -1).replace(/''/g, "'"))
+    : Number(left) - Number(right);
+  switch (operator) {
+    case "=":
+      return order === 0;
+    case "!=":
+    case "<>":
+      return order !== 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      return order < 0;
+    default:
+      return order <= 0;
+  }
+}
+
+// A very small stand-in for executing edited SQL: the FROM table picks the
+// fixture, then conditions, ORDER BY and LIMIT on the fixture's own result
+// columns are applied to its rows. Anything else in the query is ignored.
+export function runMockSQL(sql: string): MockAnswer {
+  const table = sql.match(/\bfrom\s+([a-z_][\w.]*)/i)?.[1]?.toLowerCase();
+  const candidates = fixtures.filter(
+    (f) =>
+      table &&
+      f.response?.results &&
+      f.response.sql_query
+        ?.toLowerCase()
+        .match(/\bfrom\s+([a-z_][\w.]*)/)?.[1] === table
+  );
+  if (candidates.length === 0) {
+    return {
+      kind: "error",
+      status: 400,
+      body: { detail: `relation "${table ?? "?"}" does not exist` },
+    };
+  }
+
+  // Prefer the fixture whose columns the query mentions most
+  const mentions = (f: MockFixture) =>
+    Object.keys(f.response!.results![0]).filter((key) =>
+      new RegExp(`\\b${key}\\b`, "i").test(sql)
+    ).length;
+  const fixture = candidates.reduce((best, f) =>
+    mentions(f) > mentions(best) ? f : best
+  );
+  const columns = Object.keys(fixture.response!.results![0]);
+  let rows = [...fixture.response!.results!];
+
+  for (const [, column, operator, value] of sql.matchAll(CONDITION_PATTERN)) {
+    if (columns.includes(column)) {
+      rows = rows.filter((row) => compareValues(row[column], operator, value));
+    }
+  }
+
+  const order = sql.match(/\border\s+by\s+(\w+)(\s+(asc|desc))?/i);
+  if (order && columns.includes(order[1])) {
+    const [, column, , direction] = order;
+    const sign = direction?.toLowerCase() === "desc" ? -1 : 1;
+    rows.sort((a, b) =>
+      a[column] < b[column] ? -sign : a[column] > b[column] ? sign : 0
+    );
+  }
+
+  const limit = sql.match(/\blimit\s+(\d+)/i);
+  if (limit) rows = rows.slice(0, Number(limit[1]));
+
+  return {
+    kind: "ok",
+    response: { sql_query: sql, results: rows },
+    extraLatencyMs: 0,
+  };
+}
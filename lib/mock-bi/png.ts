@@ -0,0 +1,145 @@
+import { deflateSync } from "zlib";
+
+// Minimal PNG encoder used by the mock BI backend to produce chart images
+// that look like the real backend's `formatted_data.image_base64`.
+
+type RGB = [number, number, number];
+
+const WIDTH = 480;
+const HEIGHT = 260;
+const PADDING = 24;
+const BACKGROUND: RGB = [255, 255, 255];
+const AXIS: RGB = [137, 141, 141];
+const PALETTE: RGB[] = [
+  [182, 115, 92],
+  [51, 63, 72],
+  [137, 141, 141],
+  [214, 170, 150],
+  [96, 112, 124],
+];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+class Canvas {
+  pixels = Buffer.alloc(WIDTH * HEIGHT * 3);
+
+  constructor() {
+    this.fillRect(0, 0, WIDTH, HEIGHT, BACKGROUND);
+  }
+
+  setPixel(x: number, y: number, [r, g, b]: RGB) {
+    if (x < 0 || y < 0 || x >= WIDTH || y >= HEIGHT) return;
+    const offset = (Math.round(y) * WIDTH + Math.round(x)) * 3;
+    this.pixels[offset] = r;
+    this.pixels[offset + 1] = g;
+    this.pixels[offset + 2] = b;
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: RGB) {
+    for (let py = Math.floor(y); py < y + h; py++) {
+      for (let px = Math.floor(x); px < x + w; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  line(x0: number, y0: number, x1: number, y1: number, color: RGB) {
+    const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+    for (let i = 0; i <= steps; i++) {
+      const x = x0 + ((x1 - x0) * i) / steps;
+      const y = y0 + ((y1 - y0) * i) / steps;
+      this.fillRect(x - 1, y - 1, 2, 2, color);
+    }
+  }
+
+  toPNG() {
+    // Each scanline is prefixed with filter type 0 (none)
+    const raw = Buffer.alloc((WIDTH * 3 + 1) * HEIGHT);
+    for (let y = 0; y < HEIGHT; y++) {
+      this.pixels.copy(
+        raw,
+        y * (WIDTH * 3 + 1) + 1,
+        y * WIDTH * 3,
+        (y + 1) * WIDTH * 3
+      );
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(WIDTH, 0);
+    header.writeUInt32BE(HEIGHT, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // truecolor RGB
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", header),
+      chunk("IDAT", deflateSync(raw)),
+      chunk("IEND", Buffer.alloc(0)),
+    ]);
+  }
+}
+
+// Render a simple chart of `values` and return it base64-encoded. Bars are
+// used for everything except line and scatter hints.
+export function renderChartBase64(values: number[], kind = "bar"): string {
+  const canvas = new Canvas();
+  const plotWidth = WIDTH - PADDING * 2;
+  const plotHeight = HEIGHT - PADDING * 2;
+  const max = Math.max(...values, 1);
+  const baseline = HEIGHT - PADDING;
+
+  canvas.line(PADDING, PADDING, PADDING, baseline, AXIS);
+  canvas.line(PADDING, baseline, WIDTH - PADDING, baseline, AXIS);
+
+  const step = plotWidth / Math.max(values.length, 1);
+  const points = values.map((value, index) => ({
+    x: PADDING + step * index + step / 2,
+    y: baseline - (Math.max(value, 0) / max) * plotHeight,
+  }));
+
+  if (kind === "line" || kind === "scatter") {
+    points.forEach((point, index) => {
+      if (kind === "line" && index > 0) {
+        const prev = points[index - 1];
+        canvas.line(prev.x, prev.y, point.x, point.y, PALETTE[0]);
+      }
+      canvas.fillRect(point.x - 3, point.y - 3, 6, 6, PALETTE[1]);
+    });
+  } else {
+    points.forEach((point, index) => {
+      const barWidth = Math.max(step * 0.6, 2);
+      canvas.fillRect(
+        point.x - barWidth / 2,
+        point.y,
+        barWidth,
+        baseline - point.y,
+        PALETTE[index % PALETTE.length]
+      );
+    });
+  }
+
+  return canvas.toPNG().toString("base64");
+}
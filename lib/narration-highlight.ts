@@ -0,0 +1,234 @@
+// Follows narration in the rendered insights: highlights the word being
+// spoken and its sentence, and finds when a clicked sentence is spoken.
+//
+// The narrated text is the markdown with its formatting stripped, so its
+// words are matched in order against the words of the rendered DOM. The
+// highlights use the CSS Custom Highlight API and never touch the DOM React
+// rendered; browsers without it simply don't highlight.
+
+import type { SpeechWord } from "@/lib/tts/alignment";
+
+// What an <audio> element is reading: the part of the narrated `text`
+// starting `offset` characters in, and the timings of its words (offsets
+// into the part), filled in as they arrive
+export type NarrationTrack = {
+  text: string;
+  offset: number;
+  words: SpeechWord[];
+};
+
+type TextToken = { offset: number; sentence: number; range: Range | null };
+type Sentence = { start: number; end: number; range: Range | null };
+type NarrationMap = {
+  text: string;
+  tokens: TextToken[];
+  sentences: Sentence[];
+};
+
+const WORD_HIGHLIGHT = "narration-word";
+const SENTENCE_HIGHLIGHT = "narration-sentence";
+
+// How many rendered words a narrated word may be ahead of, e.g. when the
+// markdown had a code block the narration skipped
+const LOOKAHEAD = 8;
+
+const SENTENCE_END = /[.!?؟]["')\]]*$/;
+
+const maps = new WeakMap<HTMLElement, NarrationMap>();
+
+const normalize = (word: string) =>
+  word.toLocaleLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+const supportsHighlights = () =>
+  typeof CSS !== "undefined" && "highlights" in CSS;
+
+// `part` is the piece of `text` being read, when it isn't all of it. Parts
+// may have lost or changed their final punctuation.
+export function createNarrationTrack(
+  text: string,
+  part = text
+): NarrationTrack {
+  const start = text.indexOf(part.replace(/[.!?؟]$/, ""));
+  return { text, offset: Math.max(0, start), words: [] };
+}
+
+// The words of the rendered container as ranges, with the text nodes of
+// inline formatting joined so "**12%** growth" reads as rendered
+function renderedWords(container: HTMLElement) {
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  let content = "";
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push(node);
+    starts.push(content.length);
+    content += node.data;
+  }
+
+  // Character index in `content` to a position in a text node; matches
+  // come in order, so the search picks up where the last one stopped
+  let current = 0;
+  const position = (index: number, isEnd: boolean): [Text, number] => {
+    while (
+      current < nodes.length - 1 &&
+      (isEnd ? starts[current + 1] < index : starts[current + 1] <= index)
+    ) {
+      current++;
+    }
+    return [nodes[current], index - starts[current]];
+  };
+
+  return [...content.matchAll(/\S+/g)]
+    .map((match) => {
+      const range = document.createRange();
+      range.setStart(...position(match.index, false));
+      range.setEnd(...position(match.index + match[0].length, true));
+      return { key: normalize(match[0]), range };
+    })
+    .filter((word) => word.key);
+}
+
+function mapNarration(container: HTMLElement, text: string): NarrationMap {
+  const cached = maps.get(container);
+  if (cached?.text === text) return cached;
+
+  const rendered = renderedWords(container);
+  let next = 0;
+  let sentence = 0;
+  const tokens = [...text.matchAll(/\S+/g)].map((match) => {
+    const key = normalize(match[0]);
+    let range: Range | null = null;
+    for (
+      let i = next;
+      key && i < rendered.length && i < next + LOOKAHEAD;
+      i++
+    ) {
+      if (rendered[i].key === key) {
+        range = rendered[i].range;
+        next = i + 1;
+        break;
+      }
+    }
+    const token = { offset: match.index, sentence, range };
+    if (SENTENCE_END.test(match[0])) sentence++;
+    return token;
+  });
+
+  const sentences: Sentence[] = [];
+  tokens.forEach((token) => {
+    const current = sentences[token.sentence];
+    if (!current) {
+      sentences[token.sentence] = {
+        start: token.offset,
+        end: token.offset,
+        range: token.range?.cloneRange() ?? null,
+      };
+      return;
+    }
+    current.end = token.offset;
+    if (!token.range) return;
+    if (current.range) {
+      current.range.setEnd(token.range.endContainer, token.range.endOffset);
+    } else {
+      current.range = token.range.cloneRange();
+    }
+  });
+
+  const map = { text, tokens, sentences };
+  maps.set(container, map);
+  return map;
+}
+
+function showHighlight(name: string, range: Range | null) {
+  if (!supportsHighlights()) return;
+  if (range) {
+    CSS.highlights.set(name, new Highlight(range));
+  } else {
+    CSS.highlights.delete(name);
+  }
+}
+
+function clearNarrationHighlight() {
+  showHighlight(WORD_HIGHLIGHT, null);
+  showHighlight(SENTENCE_HIGHLIGHT, null);
+}
+
+// The word being spoken; between two words, the one that just ended
+function currentWord(audio: HTMLAudioElement, track: NarrationTrack) {
+  let current: SpeechWord | null = null;
+  for (const word of track.words) {
+    if (word.start > audio.currentTime) break;
+    current = word;
+  }
+  return current;
+}
+
+// Highlight along with `audio` every frame until the returned function is
+// called. The container is looked up each time because React may replace
+// it while the narration plays.
+export function followNarration(
+  audio: HTMLAudioElement,
+  track: NarrationTrack,
+  getContainer: () => HTMLElement | null
+): () => void {
+  let frame: number | null = null;
+  let shown: Range | null = null;
+
+  const tick = () => {
+    frame = requestAnimationFrame(tick);
+    const container = getContainer();
+    const word = currentWord(audio, track);
+    if (!container || !word) {
+      if (shown) clearNarrationHighlight();
+      shown = null;
+      return;
+    }
+
+    const map = mapNarration(container, track.text);
+    const offset = track.offset + word.offset;
+    const token = map.tokens.findLast((t) => t.offset <= offset);
+    if (!token || token.range === shown) return;
+
+    shown = token.range;
+    showHighlight(WORD_HIGHLIGHT, token.range);
+    showHighlight(SENTENCE_HIGHLIGHT, map.sentences[token.sentence].range);
+  };
+
+  frame = requestAnimationFrame(tick);
+  return () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    clearNarrationHighlight();
+  };
+}
+
+// Character offsets in the narrated `text` of the sentence rendered at
+// (x, y), or null when nothing narrated is there
+export function sentenceAt(
+  container: HTMLElement,
+  text: string,
+  x: number,
+  y: number
+): { start: number; end: number } | null {
+  const { sentences } = mapNarration(container, text);
+  const sentence = sentences.find((s) =>
+    [...(s.range?.getClientRects() ?? [])].some(
+      (rect) =>
+        x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
+    )
+  );
+  return sentence ? { start: sentence.start, end: sentence.end } : null;
+}
+
+// Seconds into `track` where the sentence starts, or null when the track
+// doesn't read it (or its timings haven't arrived yet)
+export function sentenceTime(
+  track: NarrationTrack,
+  sentence: { start: number; end: number }
+): number | null {
+  const word = track.words.find((w) => {
+    const offset = track.offset + w.offset;
+    return offset >= sentence.start && offset <= sentence.end;
+  });
+  return word?.start ?? null;
+}
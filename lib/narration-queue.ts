@@ -0,0 +1,205 @@
+// Reading insights aloud part by part, one sentence at a time. Every part
+// is fetched ahead, a few at a time, into an <audio> element of its own, so
+// the next part starts the moment the previous one ends.
+//
+// Queues outlive their playback: each message keeps its own, and going back
+// to one continues where it stopped without fetching anything again.
+
+import {
+  createNarrationTrack,
+  type NarrationTrack,
+} from "@/lib/narration-highlight";
+
+export type QueuePart = {
+  text: string;
+  track: NarrationTrack;
+  audio: HTMLAudioElement | null;
+  url: string | null;
+  // Set while the part is being fetched, and once it's ready
+  loading: Promise<HTMLAudioElement | null> | null;
+  controller: AbortController | null;
+  failed: boolean;
+};
+
+export type NarrationQueue = {
+  messageId: number;
+  parts: QueuePart[];
+  // The part being read, and how many seconds into it
+  current: number;
+  time: number;
+  released: boolean;
+};
+
+export type QueueProgress = {
+  part: number;
+  parts: number;
+  elapsed: number;
+  total: number;
+};
+
+// Resolves with an object URL for the part's audio
+export type LoadPart = (
+  part: QueuePart,
+  controller: AbortController
+) => Promise<string>;
+
+const PREFETCH_CONCURRENCY = 3;
+// Shorter sentences ("Overall, yes.") are read together with the one before
+const MIN_PART_CHARS = 20;
+// Length of a part whose audio hasn't said how long it is yet
+const CHARS_PER_SECOND = 15;
+
+// Sentence boundaries are punctuation followed by a space, so "12.5%"
+// stays in one piece
+export function splitNarration(text: string): string[] {
+  const parts: string[] = [];
+  text
+    .split(/(?<=[.!?؟])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .forEach((sentence) => {
+      const last = parts.length - 1;
+      if (last >= 0 && sentence.length < MIN_PART_CHARS) {
+        parts[last] = `${parts[last]} ${sentence}`;
+      } else {
+        parts.push(sentence);
+      }
+    });
+  return parts.length > 0 ? parts : [text];
+}
+
+// `text` is the narrated text of the whole insights
+export function createNarrationQueue(
+  messageId: number,
+  text: string
+): NarrationQueue {
+  return {
+    messageId,
+    parts: splitNarration(text).map((part) => ({
+      text: part,
+      track: createNarrationTrack(text, part),
+      audio: null,
+      url: null,
+      loading: null,
+      controller: null,
+      failed: false,
+    })),
+    current: 0,
+    time: 0,
+    released: false,
+  };
+}
+
+// Fetch a part unless it is already there or on its way. Resolves with its
+// audio, or null when fetching failed or was aborted; either way it may be
+// tried again later.
+export function loadPart(
+  queue: NarrationQueue,
+  part: QueuePart,
+  load: LoadPart,
+  onUpdate: () => void
+): Promise<HTMLAudioElement | null> {
+  part.loading ??= (async () => {
+    const controller = new AbortController();
+    part.controller = controller;
+    part.failed = false;
+    part.track.words = [];
+
+    try {
+      const url = await load(part, controller);
+      if (queue.released) {
+        URL.revokeObjectURL(url);
+        return null;
+      }
+      const audio = new Audio();
+      audio.preload = "auto";
+      audio.src = url;
+      part.url = url;
+      part.audio = audio;
+      return audio;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Error fetching narration:", error);
+        part.failed = true;
+      }
+      return null;
+    } finally {
+      part.controller = null;
+      if (!part.audio) part.loading = null;
+      onUpdate();
+    }
+  })();
+  return part.loading;
+}
+
+// Keep up to PREFETCH_CONCURRENCY parts fetching, those right after the
+// current one first. Parts that failed wait until they are played.
+export function prefetchParts(
+  queue: NarrationQueue,
+  load: LoadPart,
+  onUpdate: () => void
+) {
+  if (queue.released) return;
+
+  const { parts, current } = queue;
+  let inFlight = parts.filter((part) => part.loading && !part.audio).length;
+  for (const part of [...parts.slice(current), ...parts.slice(0, current)]) {
+    if (inFlight >= PREFETCH_CONCURRENCY) break;
+    if (part.loading || part.failed) continue;
+    inFlight++;
+    loadPart(queue, part, load, onUpdate).then((audio) => {
+      // An aborted fetch means narration was stopped; don't start over
+      if (audio) prefetchParts(queue, load, onUpdate);
+    });
+  }
+}
+
+function partDuration(part: QueuePart): number {
+  if (part.audio && Number.isFinite(part.audio.duration)) {
+    return part.audio.duration;
+  }
+  const lastWord = part.track.words[part.track.words.length - 1];
+  return lastWord?.end ?? part.text.length / CHARS_PER_SECOND;
+}
+
+export function queueProgress(queue: NarrationQueue): QueueProgress {
+  const durations = queue.parts.map(partDuration);
+  const before = durations
+    .slice(0, queue.current)
+    .reduce((sum, duration) => sum + duration, 0);
+  return {
+    part: queue.current,
+    parts: queue.parts.length,
+    elapsed: before + queue.time,
+    total: durations.reduce((sum, duration) => sum + duration, 0),
+  };
+}
+
+// The part and time `seconds` into the whole queue
+export function queuePosition(
+  queue: NarrationQueue,
+  seconds: number
+): { part: number; time: number } {
+  let remaining = Math.max(0, seconds);
+  for (let part = 0; part < queue.parts.length; part++) {
+    const duration = partDuration(queue.parts[part]);
+    if (remaining < duration || part === queue.parts.length - 1) {
+      return { part, time: Math.min(remaining, duration) };
+    }
+    remaining -= duration;
+  }
+  return { part: 0, time: 0 };
+}
+
+// Stop fetching and free every part's audio
+export function releaseQueue(queue: NarrationQueue) {
+  queue.released = true;
+  queue.parts.forEach((part) => {
+    part.controller?.abort();
+    if (part.audio) {
+      part.audio.pause();
+      part.audio.src = "";
+    }
+    if (part.url) URL.revokeObjectURL(part.url);
+  });
+}
@@ -0,0 +1,230 @@
+import type { APIResponse } from "@/lib/types";
+
+// Column type detection and locale-aware formatting for `apiData.results`,
+// shared by the chart and the results table.
+
+export type ResultRow = NonNullable<APIResponse["results"]>[number];
+
+export type ColumnKind = "number" | "currency" | "percent" | "time" | "text";
+
+export type ColumnInfo = {
+  key: string;
+  label: string;
+  kind: ColumnKind;
+  // Percent columns hold either fractions (0.25) or whole percents (25)
+  percentScale?: "fraction" | "whole";
+  currency?: string;
+};
+
+export const DEFAULT_CURRENCY =
+  process.env.NEXT_PUBLIC_DEFAULT_CURRENCY || "AED";
+
+// 2026, 2026-10, 2026-10-19, 2026-10-19T08:00:00, 2026/10/19, 2026-Q3
+const TIME_PATTERN =
+  /^\d{4}([-/](0[1-9]|1[0-2])([-/](0[1-9]|[12]\d|3[01]))?([T ]\d{2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?|-?Q[1-4])?$/i;
+const TIME_KEY_PATTERN = /(date|day|week|month|quarter|year|period|time)/i;
+const CURRENCY_KEY_PATTERN =
+  /(amount|revenue|sales|price|cost|profit|spend|income|budget|aov|gmv)/i;
+const PERCENT_KEY_PATTERN =
+  /(percent|pct|rate|ratio|share|margin|attainment|growth|conversion)/i;
+
+// "AED 1,200.50", "$1,200", "1 200 €" -> currency; "12.5%" -> percent
+const CURRENCY_VALUE_PATTERN =
+  /^(?:([A-Z]{3}|[$€£¥])\s?)?-?[\d,.\s]+(?:\s?([A-Z]{3}|[$€£¥]))?$/;
+const PERCENT_VALUE_PATTERN = /^-?[\d,.]+\s?%$/;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+};
+
+export function formatColumnLabel(key: string): string {
+  return key.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+export function isTimeValue(value: unknown): boolean {
+  return typeof value === "string" && TIME_PATTERN.test(value.trim());
+}
+
+export function isNumericKind(kind: ColumnKind): boolean {
+  return kind === "number" || kind === "currency" || kind === "percent";
+}
+
+// Numeric value of a cell, accepting formatted strings such as "1,200" or
+// "12%". Returns null for anything that isn't a number.
+export function numericValue(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const cleaned = value.replace(/[A-Z]{3}|[$€£¥%,\s]/g, "");
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+function currencyFromValue(value: string): string | undefined {
+  const match = value.trim().match(CURRENCY_VALUE_PATTERN);
+  const code = match?.[1] ?? match?.[2];
+  if (!code) return undefined;
+  return CURRENCY_SYMBOLS[code] ?? code;
+}
+
+function describeColumn(key: string, values: unknown[]): ColumnInfo {
+  const column: ColumnInfo = {
+    key,
+    label: formatColumnLabel(key),
+    kind: "text",
+  };
+  const present = values.filter(
+    (v) => v !== null && v !== undefined && v !== ""
+  );
+  if (present.length === 0) return column;
+
+  if (present.every((v) => typeof v === "number")) {
+    const numbers = present as number[];
+
+    // Plain year columns (2024, 2025) are a time axis, not a measure
+    if (
+      TIME_KEY_PATTERN.test(key) &&
+      numbers.every((v) => Number.isInteger(v) && v >= 1900 && v <= 2200)
+    ) {
+      return { ...column, kind: "time" };
+    }
+    if (PERCENT_KEY_PATTERN.test(key)) {
+      const isFraction = numbers.every((v) => Math.abs(v) <= 1.5);
+      return {
+        ...column,
+        kind: "percent",
+        percentScale: isFraction ? "fraction" : "whole",
+      };
+    }
+    if (CURRENCY_KEY_PATTERN.test(key)) {
+      return { ...column, kind: "currency", currency: DEFAULT_CURRENCY };
+    }
+    return { ...column, kind: "number" };
+  }
+
+  const strings = present.map((v) => String(v).trim());
+
+  if (strings.every(isTimeValue)) return { ...column, kind: "time" };
+  if (strings.every((v) => PERCENT_VALUE_PATTERN.test(v))) {
+    return { ...column, kind: "percent", percentScale: "whole" };
+  }
+
+  const currencies = strings.map(currencyFromValue);
+  if (
+    currencies.every(Boolean) &&
+    new Set(currencies).size === 1 &&
+    strings.every((v) => numericValue(v) !== null)
+  ) {
+    return { ...column, kind: "currency", currency: currencies[0] };
+  }
+  if (strings.every((v) => /^-?[\d,.]+$/.test(v) && numericValue(v) !== null)) {
+    return { ...column, kind: "number" };
+  }
+
+  return column;
+}
+
+// Columns in the order the backend returned them
+export function inferColumns(results: ResultRow[]): ColumnInfo[] {
+  if (results.length === 0) return [];
+
+  return Object.keys(results[0]).map((key) =>
+    describeColumn(
+      key,
+      results.map((row) => row[key])
+    )
+  );
+}
+
+// Sortable timestamp for a time cell ("2026-Q3" sorts by its first month)
+export function timeValue(value: unknown): number | null {
+  if (typeof value === "number") return Date.UTC(value, 0, 1);
+  if (typeof value !== "string") return null;
+
+  const text = value.trim();
+  const quarter = text.match(/^(\d{4})-?Q([1-4])$/i);
+  if (quarter) {
+    return Date.UTC(Number(quarter[1]), (Number(quarter[2]) - 1) * 3, 1);
+  }
+  if (/^\d{4}$/.test(text)) return Date.UTC(Number(text), 0, 1);
+  if (/^\d{4}[-/]\d{2}$/.test(text)) {
+    return Date.UTC(Number(text.slice(0, 4)), Number(text.slice(5, 7)) - 1, 1);
+  }
+
+  const parsed = Date.parse(text.replace(/\//g, "-"));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function formatTime(value: unknown, locale?: string): string {
+  const text = String(value).trim();
+  const timestamp = timeValue(value);
+  if (timestamp === null || /^\d{4}(-?Q[1-4])?$/i.test(text)) return text;
+
+  const date = new Date(timestamp);
+  if (/^\d{4}[-/]\d{2}$/.test(text)) {
+    return date.toLocaleDateString(locale, {
+      year: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    });
+  }
+  if (/[T ]\d{2}:\d{2}/.test(text)) {
+    return date.toLocaleString(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  }
+  return date.toLocaleDateString(locale, {
+    dateStyle: "medium",
+    timeZone: "UTC",
+  });
+}
+
+export function formatNumber(
+  value: number,
+  column: Pick<ColumnInfo, "kind" | "currency" | "percentScale">,
+  locale?: string
+): string {
+  switch (column.kind) {
+    case "currency":
+      try {
+        return value.toLocaleString(locale, {
+          style: "currency",
+          currency: column.currency ?? DEFAULT_CURRENCY,
+          maximumFractionDigits: 2,
+        });
+      } catch {
+        // Unknown currency code from the data; fall back to a plain number
+        return value.toLocaleString(locale, { maximumFractionDigits: 2 });
+      }
+    case "percent":
+      return (
+        column.percentScale === "whole" ? value / 100 : value
+      ).toLocaleString(locale, {
+        style: "percent",
+        maximumFractionDigits: 1,
+      });
+    default:
+      return value.toLocaleString(locale, { maximumFractionDigits: 2 });
+  }
+}
+
+export function formatCell(
+  value: unknown,
+  column: ColumnInfo,
+  locale?: string
+): string {
+  if (value === null || value === undefined) return "";
+
+  if (column.kind === "time") return formatTime(value, locale);
+  if (isNumericKind(column.kind)) {
+    const number = numericValue(value);
+    return number === null
+      ? String(value)
+      : formatNumber(number, column, locale);
+  }
+  return String(value);
+}
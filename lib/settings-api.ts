@@ -0,0 +1,19 @@
+import axios from "axios";
+import type { VoiceOption, VoiceSettings } from "@/lib/voice-settings";
+
+// Browser-side helpers for the /api/settings routes
+
+export async function fetchVoiceSettings(): Promise<{
+  settings: VoiceSettings;
+  voices: VoiceOption[];
+}> {
+  const response = await axios.get("/api/settings/voice");
+  return response.data;
+}
+
+export async function saveVoiceSettings(
+  update: Partial<VoiceSettings>
+): Promise<VoiceSettings> {
+  const response = await axios.put("/api/settings/voice", update);
+  return response.data.settings;
+}
@@ -0,0 +1,365 @@
+// Read-only guard for SQL passing through the BI proxy. Generated SQL is
+// checked before its rows reach the chat, and SQL a user submits is checked
+// (and given a row limit) before it reaches the backend.
+//
+// This is a lexer, not a full parser: comments, string literals and quoted
+// identifiers are skipped so keywords inside them don't trip the guard, and
+// what's left is matched against a deny list. It assumes PostgreSQL-style
+// syntax, which is what the BI backend generates.
+
+export type SQLGuardCode =
+  | "empty"
+  | "unparseable"
+  | "multiple_statements"
+  | "not_read_only"
+  | "forbidden_keyword"
+  | "forbidden_function"
+  | "row_limit"
+  | "missing_sql";
+
+export class SQLGuardError extends Error {
+  constructor(
+    message: string,
+    public code: SQLGuardCode,
+    // The keyword or function that triggered the rejection, if any
+    public offender?: string
+  ) {
+    super(message);
+    this.name = "SQLGuardError";
+  }
+}
+
+// What the chat tells the user for each rejection
+export const sqlGuardExplanations: Record<SQLGuardCode, string> = {
+  empty: "The query was empty.",
+  unparseable:
+    "The query couldn't be checked because a string or comment is never closed.",
+  multiple_statements:
+    "Only one statement can run at a time, and this query contains several.",
+  not_read_only:
+    "Only read-only queries (SELECT or WITH) are allowed on this dashboard.",
+  forbidden_keyword:
+    "The query tries to change data or database settings, which this dashboard doesn't allow.",
+  forbidden_function:
+    "The query calls a database function that isn't allowed on this dashboard.",
+  row_limit: "The query asks for more rows than this dashboard can return.",
+  missing_sql:
+    "The answer came without the query behind it, so it couldn't be checked.",
+};
+
+export function isSQLGuardCode(value: unknown): value is SQLGuardCode {
+  return typeof value === "string" && value in sqlGuardExplanations;
+}
+
+// Statements (or clauses) that write, lock or reconfigure anything. Checked
+// anywhere in the query because Postgres allows data-modifying CTEs such as
+// `WITH gone AS (DELETE ... RETURNING *) SELECT ...`.
+const FORBIDDEN_KEYWORDS = new Set([
+  "insert",
+  "update",
+  "delete",
+  "merge",
+  "upsert",
+  "truncate",
+  "drop",
+  "alter",
+  "create",
+  "rename",
+  "grant",
+  "revoke",
+  "copy",
+  "call",
+  "exec",
+  "execute",
+  "do",
+  "vacuum",
+  "reindex",
+  "cluster",
+  "lock",
+  "listen",
+  "notify",
+  "prepare",
+  "deallocate",
+  "into",
+  "attach",
+  "detach",
+  "pragma",
+]);
+
+// Functions with side effects or access outside the warehouse
+const FORBIDDEN_FUNCTIONS = new Set([
+  "pg_read_file",
+  "pg_read_binary_file",
+  "pg_stat_file",
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "pg_rotate_logfile",
+  "pg_switch_wal",
+  "pg_create_restore_point",
+  "pg_backup_start",
+  "pg_backup_stop",
+  "pg_start_backup",
+  "pg_stop_backup",
+  "pg_promote",
+  "pg_notify",
+  "pg_logical_emit_message",
+  "pg_create_logical_replication_slot",
+  "pg_create_physical_replication_slot",
+  "pg_drop_replication_slot",
+  "set_config",
+  "setval",
+  "nextval",
+  "query_to_xml",
+  "xp_cmdshell",
+  "load_file",
+]);
+
+// Whole families of them: sleeping, large objects (lo_import, lo_export,
+// lo_get, ...), directory listings (pg_ls_dir, pg_ls_logdir, pg_ls_waldir,
+// ...), server file writes, advisory locks and remote queries (dblink,
+// dblink_exec, dblink_connect, ...)
+const FORBIDDEN_FUNCTION_PREFIXES = [
+  "pg_sleep",
+  "lo_",
+  "pg_ls_",
+  "pg_file_",
+  "pg_advisory",
+  "dblink",
+];
+
+const isForbiddenFunction = (name: string) =>
+  FORBIDDEN_FUNCTIONS.has(name) ||
+  FORBIDDEN_FUNCTION_PREFIXES.some((prefix) => name.startsWith(prefix));
+
+type Token = {
+  kind: "word" | "number" | "string" | "identifier" | "symbol";
+  text: string;
+  // Parenthesis nesting level; 0 is the outermost query
+  depth: number;
+  // Offset just past the token in the original SQL
+  end: number;
+};
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const unterminated = (what: string) =>
+    new SQLGuardError(`Unterminated ${what} in SQL`, "unparseable");
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "-" && next === "-") {
+      const newline = sql.indexOf("\n", i);
+      i = newline === -1 ? sql.length : newline + 1;
+    } else if (char === "/" && next === "*") {
+      const close = sql.indexOf("*/", i + 2);
+      if (close === -1) throw unterminated("comment");
+      i = close + 2;
+    } else if (
+      char === "'" ||
+      ((char === "E" || char === "e") && next === "'")
+    ) {
+      // '...' with '' escapes, and E'...' with backslash escapes
+      let j = char === "'" ? i + 1 : i + 2;
+      const backslashEscapes = char !== "'";
+      while (j < sql.length) {
+        if (backslashEscapes && sql[j] === "\\") {
+          j += 2;
+        } else if (sql[j] === "'" && sql[j + 1] === "'") {
+          j += 2;
+        } else if (sql[j] === "'") {
+          break;
+        } else {
+          j++;
+        }
+      }
+      if (j >= sql.length) throw unterminated("string");
+      tokens.push({
+        kind: "string",
+        text: sql.slice(i, j + 1),
+        depth,
+        end: j + 1,
+      });
+      i = j + 1;
+    } else if (char === "$" && /^\$[A-Za-z_]*\$/.test(sql.slice(i))) {
+      // Dollar-quoted string: $tag$ ... $tag$
+      const tag = sql.slice(i).match(/^\$[A-Za-z_]*\$/)![0];
+      const close = sql.indexOf(tag, i + tag.length);
+      if (close === -1) throw unterminated("string");
+      const end = close + tag.length;
+      tokens.push({ kind: "string", text: sql.slice(i, end), depth, end });
+      i = end;
+    } else if (char === '"' || char === "`") {
+      // A doubled quote inside the name stands for the quote itself
+      let close = sql.indexOf(char, i + 1);
+      while (close !== -1 && sql[close + 1] === char) {
+        close = sql.indexOf(char, close + 2);
+      }
+      if (close === -1) throw unterminated("identifier");
+      tokens.push({
+        kind: "identifier",
+        text: sql.slice(i, close + 1),
+        depth,
+        end: close + 1,
+      });
+      i = close + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = sql.slice(i).match(/^[A-Za-z_][\w$]*/)![0];
+      i += word.length;
+      tokens.push({ kind: "word", text: word.toLowerCase(), depth, end: i });
+    } else if (/\d/.test(char) || (char === "." && /\d/.test(next ?? ""))) {
+      const number = sql.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?/i)![0];
+      i += number.length;
+      tokens.push({ kind: "number", text: number, depth, end: i });
+    } else {
+      if (char === ")") depth = Math.max(0, depth - 1);
+      tokens.push({ kind: "symbol", text: char, depth, end: i + 1 });
+      if (char === "(") depth++;
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+// What a token names: words as they are (already lowercased), quoted
+// identifiers without their quotes. `"pg_read_file"('x')` calls the same
+// function as the bare name, so both go through the same checks.
+function tokenName(token: Token): string | null {
+  if (token.kind === "word") return token.text;
+  if (token.kind !== "identifier") return null;
+  const quote = token.text[0];
+  return token.text
+    .slice(1, -1)
+    .replaceAll(quote + quote, quote)
+    .toLowerCase();
+}
+
+function statementTokens(sql: string): Token[] {
+  const tokens = tokenize(sql);
+  if (tokens.length === 0) {
+    throw new SQLGuardError("SQL is empty", "empty");
+  }
+
+  // A trailing semicolon is fine; anything after it is a second statement
+  const separator = tokens.findIndex((t) => t.text === ";");
+  if (separator !== -1) {
+    const rest = tokens.slice(separator + 1);
+    if (rest.some((t) => t.text !== ";")) {
+      throw new SQLGuardError(
+        "SQL contains more than one statement",
+        "multiple_statements"
+      );
+    }
+    return tokens.slice(0, separator);
+  }
+  return tokens;
+}
+
+function readOnlyTokens(sql: string): Token[] {
+  const tokens = statementTokens(sql);
+
+  const first = tokens.find((t) => t.text !== "(");
+  if (first?.kind !== "word" || !["select", "with"].includes(first.text)) {
+    const keyword = first?.text.toUpperCase() ?? "";
+    throw new SQLGuardError(
+      `Only SELECT and WITH queries are allowed, got ${keyword}`,
+      "not_read_only",
+      keyword
+    );
+  }
+
+  tokens.forEach((token, index) => {
+    const name = tokenName(token);
+    if (name === null) return;
+    const following = tokens[index + 1];
+
+    if (FORBIDDEN_KEYWORDS.has(name)) {
+      throw new SQLGuardError(
+        `SQL contains the forbidden keyword ${name.toUpperCase()}`,
+        "forbidden_keyword",
+        name.toUpperCase()
+      );
+    }
+    // Row locks: FOR UPDATE is caught above, FOR SHARE / FOR KEY SHARE here
+    if (
+      token.text === "for" &&
+      following?.kind === "word" &&
+      ["share", "key", "no"].includes(following.text)
+    ) {
+      throw new SQLGuardError(
+        "SQL takes row locks",
+        "forbidden_keyword",
+        `FOR ${following.text.toUpperCase()}`
+      );
+    }
+    if (isForbiddenFunction(name) && following?.text === "(") {
+      throw new SQLGuardError(
+        `SQL calls the forbidden function ${name}()`,
+        "forbidden_function",
+        name
+      );
+    }
+  });
+
+  return tokens;
+}
+
+// Throws SQLGuardError unless the SQL is a single read-only SELECT/WITH
+// statement
+export function assertReadOnly(sql: string) {
+  readOnlyTokens(sql);
+}
+
+// Check user-submitted SQL and make sure it can't return more than maxRows:
+// an explicit LIMIT/FETCH above the cap is rejected, and a query without one
+// gets `LIMIT maxRows` appended.
+export function guardSubmittedSQL(sql: string, maxRows: number): string {
+  const tokens = readOnlyTokens(sql);
+  const outer = tokens.filter((t) => t.depth === 0);
+
+  let limit: number | null | undefined;
+  outer.forEach((token, index) => {
+    const next = outer[index + 1];
+    if (token.text === "limit") {
+      limit = next?.kind === "number" ? Number(next.text) : null;
+    } else if (
+      token.text === "fetch" &&
+      ["first", "next"].includes(next?.text ?? "")
+    ) {
+      const count = outer[index + 2];
+      // FETCH FIRST ROW ONLY means one row
+      limit = count?.kind === "number" ? Number(count.text) : 1;
+    }
+  });
+
+  if (limit === null || (limit !== undefined && limit > maxRows)) {
+    throw new SQLGuardError(
+      `Queries may return at most ${maxRows} rows`,
+      "row_limit"
+    );
+  }
+  if (limit !== undefined) return sql.trim();
+
+  // Drop the trailing semicolon (and anything after the last token, such as
+  // a line comment) before appending the limit
+  const body = sql.slice(0, tokens[tokens.length - 1].end);
+  return `${body}\nLIMIT ${maxRows}`;
+}
+
+// Safety net for whatever the backend returns, regardless of the SQL
+export function capRows<T>(
+  rows: T[],
+  maxRows: number
+): { rows: T[]; truncated: boolean } {
+  return rows.length > maxRows
+    ? { rows: rows.slice(0, maxRows), truncated: true }
+    : { rows, truncated: false };
+}
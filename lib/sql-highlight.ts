@@ -0,0 +1,64 @@
+// Minimal SQL tokenizer for display; good enough to colour keywords,
+// literals and comments without pulling in a full highlighter.
+
+export type SQLTokenType =
+  | "keyword"
+  | "function"
+  | "string"
+  | "number"
+  | "comment"
+  | "operator"
+  | "text";
+
+export type SQLToken = { type: SQLTokenType; text: string };
+
+const KEYWORDS = new Set(
+  `select from where and or not in is null as on join left right inner outer
+  full cross group by order having limit offset with distinct case when then
+  else end union all asc desc between like ilike exists interval true false
+  over partition lag lead filter using natural`
+    .split(/\s+/)
+    .filter(Boolean)
+);
+
+const TOKEN_PATTERN =
+  /(--[^\n]*|\/\*[\s\S]*?\*\/)|('(?:[^']|'')*'?)|("(?:[^"]|"")*"?)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][\w$]*)(?=\s*\()|([A-Za-z_][\w$]*)|([<>=!]=?|<>|\|\||::|[-+*/%,;().])/g;
+
+export function tokenizeSQL(sql: string): SQLToken[] {
+  const tokens: SQLToken[] = [];
+  let last = 0;
+
+  for (const match of sql.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      tokens.push({ type: "text", text: sql.slice(last, index) });
+    }
+
+    const [text, comment, string, quoted, number, fn, word] = match;
+    const type: SQLTokenType = comment
+      ? "comment"
+      : string
+      ? "string"
+      : quoted
+      ? "text"
+      : number
+      ? "number"
+      : fn
+      ? KEYWORDS.has(fn.toLowerCase())
+        ? "keyword"
+        : "function"
+      : word
+      ? KEYWORDS.has(word.toLowerCase())
+        ? "keyword"
+        : "text"
+      : "operator";
+
+    tokens.push({ type, text });
+    last = index + text.length;
+  }
+
+  if (last < sql.length) {
+    tokens.push({ type: "text", text: sql.slice(last) });
+  }
+  return tokens;
+}
@@ -0,0 +1,37 @@
+import type { STTProvider } from "@/lib/stt/providers/types";
+
+// Canned transcripts for tests and offline development. Returns
+// STT_FIXTURE_TEXT for every recording, split into one segment per sentence
+// with timestamps paced at a normal speaking rate.
+
+const DEFAULT_TEXT = "What's the sales in the last month?";
+const SECONDS_PER_WORD = 0.4;
+
+export function createFixtureProvider(): STTProvider {
+  const text = process.env.STT_FIXTURE_TEXT?.trim() || DEFAULT_TEXT;
+
+  return {
+    id: "fixture",
+    async transcribe({ language }) {
+      let clock = 0;
+      const segments = (text.match(/[^.!?]+[.!?]*/g) ?? [text])
+        .map((sentence) => sentence.trim())
+        .filter(Boolean)
+        .map((sentence) => {
+          const start = clock;
+          clock =
+            Math.round(
+              (clock + sentence.split(/\s+/).length * SECONDS_PER_WORD) * 100
+            ) / 100;
+          return { start, end: clock, text: sentence, confidence: 1 };
+        });
+
+      return {
+        text,
+        language: language ?? "en",
+        duration: clock,
+        segments,
+      };
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { ConfigError } from "@/lib/bi-config";
+import { createFixtureProvider } from "@/lib/stt/providers/fixture";
+import { createOpenAIProvider } from "@/lib/stt/providers/openai";
+import { createWhisperServerProvider } from "@/lib/stt/providers/whisper-server";
+import type { STTProvider } from "@/lib/stt/providers/types";
+
+// Transcription providers for /api/whisper:
+//
+//   STT_PROVIDER        openai, whisper-server or fixture (openai when
+//                       OPENAI_API_KEY is set; otherwise fixture outside
+//                       production and required in production)
+//   STT_LANGUAGE        ISO 639-1 language to expect, or "auto" to detect
+//                       it (auto)
+//   STT_SERVER_URL      whisper-server: transcription endpoint, e.g.
+//                       http://localhost:8080/inference
+//   STT_SERVER_MODEL    whisper-server: model name to request (optional)
+//   STT_SERVER_API_KEY  whisper-server: bearer token (optional)
+//   STT_FIXTURE_TEXT    fixture: the transcript to return
+
+const providers: Record<string, () => STTProvider> = {
+  openai: createOpenAIProvider,
+  "whisper-server": createWhisperServerProvider,
+  fixture: createFixtureProvider,
+};
+
+export type STTConfig = {
+  provider: string;
+  // Unset means detect
+  language?: string;
+};
+
+let cachedConfig: STTConfig | null = null;
+
+export function getSTTConfig(): STTConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let provider = process.env.STT_PROVIDER?.trim().toLowerCase();
+  if (!provider) {
+    // The fixture turns every recording into the same question, which must
+    // never reach the BI backend as if someone had asked it
+    if (process.env.OPENAI_API_KEY) {
+      provider = "openai";
+    } else if (process.env.NODE_ENV === "production") {
+      throw new ConfigError("STT_PROVIDER is not set");
+    } else {
+      provider = "fixture";
+    }
+  }
+  if (!providers[provider]) {
+    throw new ConfigError(
+      `STT_PROVIDER must be one of ${Object.keys(providers).join(
+        ", "
+      )}, got "${provider}"`
+    );
+  }
+
+  const language = (process.env.STT_LANGUAGE?.trim() || "auto").toLowerCase();
+  if (language !== "auto" && !/^[a-z]{2}$/.test(language)) {
+    throw new ConfigError(
+      `STT_LANGUAGE must be a two-letter language code or "auto", got "${language}"`
+    );
+  }
+
+  cachedConfig = {
+    provider,
+    language: language === "auto" ? undefined : language,
+  };
+  return cachedConfig;
+}
+
+let cachedProvider: STTProvider | null = null;
+
+// Throws ConfigError when the provider is missing its settings
+export function getSTTProvider(): STTProvider {
+  cachedProvider ??= providers[getSTTConfig().provider]();
+  return cachedProvider;
+}
+
+export type {
+  STTProvider,
+  TranscriptionRequest,
+} from "@/lib/stt/providers/types";
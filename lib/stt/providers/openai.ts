@@ -0,0 +1,31 @@
+import OpenAI from "openai";
+import { ConfigError } from "@/lib/bi-config";
+import type { STTProvider } from "@/lib/stt/providers/types";
+import { normalizeVerboseTranscript } from "@/lib/stt/verbose-json";
+
+// OpenAI's hosted Whisper
+
+export function createOpenAIProvider(): STTProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new ConfigError("OPENAI_API_KEY is not set");
+  }
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    id: "openai",
+    async transcribe({ audio, language, signal }) {
+      const transcription = await openai.audio.transcriptions.create(
+        {
+          file: audio,
+          model: "whisper-1",
+          language,
+          response_format: "verbose_json",
+          timestamp_granularities: ["segment"],
+        },
+        { signal }
+      );
+      return normalizeVerboseTranscript(transcription);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import type { Transcript } from "@/lib/stt/types";
+
+export type TranscriptionRequest = {
+  audio: File;
+  // ISO 639-1 hint; unset lets the provider detect the language
+  language?: string;
+  signal?: AbortSignal;
+};
+
+// A speech-to-text engine behind /api/whisper. Providers return the
+// normalized Transcript; limits and validation live in the route.
+export type STTProvider = {
+  id: string;
+  transcribe(request: TranscriptionRequest): Promise<Transcript>;
+};
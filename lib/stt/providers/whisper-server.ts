@@ -0,0 +1,44 @@
+import { ConfigError } from "@/lib/bi-config";
+import type { STTProvider } from "@/lib/stt/providers/types";
+import { normalizeVerboseTranscript } from "@/lib/stt/verbose-json";
+
+// A self-hosted Whisper over HTTP: whisper.cpp's server (POST /inference) or
+// a faster-whisper server with an OpenAI-compatible
+// /v1/audio/transcriptions. Both accept the same multipart fields.
+
+export function createWhisperServerProvider(): STTProvider {
+  const raw = process.env.STT_SERVER_URL?.trim();
+  if (!raw) {
+    throw new ConfigError("STT_SERVER_URL is not set");
+  }
+  let url: string;
+  try {
+    url = new URL(raw).toString();
+  } catch {
+    throw new ConfigError(`STT_SERVER_URL is not a valid URL: "${raw}"`);
+  }
+  const model = process.env.STT_SERVER_MODEL?.trim();
+  const apiKey = process.env.STT_SERVER_API_KEY?.trim();
+
+  return {
+    id: "whisper-server",
+    async transcribe({ audio, language, signal }) {
+      const form = new FormData();
+      form.append("file", audio, audio.name || "recording.webm");
+      form.append("response_format", "verbose_json");
+      if (model) form.append("model", model);
+      if (language) form.append("language", language);
+
+      const response = await fetch(url, {
+        method: "POST",
+        body: form,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Whisper server error: ${response.status}`);
+      }
+      return normalizeVerboseTranscript(await response.json());
+    },
+  };
+}
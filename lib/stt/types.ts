@@ -0,0 +1,20 @@
+// The normalized shape every transcription provider returns, and what
+// /api/whisper sends back to the browser
+
+export type TranscriptSegment = {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+  // 0-1, or null when the provider doesn't report one
+  confidence: number | null;
+};
+
+export type Transcript = {
+  text: string;
+  // ISO 639-1 code such as "en" or "ar", or null when unknown
+  language: string | null;
+  // Length of the recording in seconds, when the provider reports it
+  duration: number | null;
+  segments: TranscriptSegment[];
+};
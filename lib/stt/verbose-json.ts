@@ -0,0 +1,116 @@
+import type { Transcript, TranscriptSegment } from "@/lib/stt/types";
+
+// Normalizes Whisper-style "verbose_json" output. OpenAI, faster-whisper
+// servers and whisper.cpp's server all produce a variant of it:
+//
+//   { text, language, duration, segments: [{ start, end, text,
+//     avg_logprob, no_speech_prob }] }
+//
+// whisper.cpp's own JSON nests segments under `transcription` with
+// millisecond `offsets` and per-token probabilities instead.
+
+// Whisper reports languages by name; the app works with ISO 639-1 codes
+const LANGUAGE_CODES: Record<string, string> = {
+  arabic: "ar",
+  chinese: "zh",
+  dutch: "nl",
+  english: "en",
+  french: "fr",
+  german: "de",
+  hindi: "hi",
+  italian: "it",
+  japanese: "ja",
+  korean: "ko",
+  persian: "fa",
+  portuguese: "pt",
+  russian: "ru",
+  spanish: "es",
+  turkish: "tr",
+  urdu: "ur",
+};
+
+export function normalizeLanguage(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const language = value.trim().toLowerCase();
+  if (/^[a-z]{2}$/.test(language)) return language;
+  if (/^[a-z]{2}[-_]/.test(language)) return language.slice(0, 2);
+  return LANGUAGE_CODES[language] ?? null;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const asNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+function segmentConfidence(segment: Record<string, unknown>): number | null {
+  const avgLogprob = asNumber(segment.avg_logprob);
+  if (avgLogprob !== null) {
+    const noSpeech = asNumber(segment.no_speech_prob) ?? 0;
+    return clamp01(Math.exp(avgLogprob) * (1 - noSpeech));
+  }
+
+  // whisper.cpp: mean probability of the segment's tokens
+  if (Array.isArray(segment.tokens)) {
+    const probabilities = segment.tokens
+      .map((token) => asNumber((token as Record<string, unknown>)?.p))
+      .filter((p): p is number => p !== null);
+    if (probabilities.length > 0) {
+      return clamp01(
+        probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+      );
+    }
+  }
+  return null;
+}
+
+function toSegment(raw: unknown): TranscriptSegment | null {
+  if (!raw || typeof raw !== "object") return null;
+  const segment = raw as Record<string, unknown>;
+  const offsets = segment.offsets as Record<string, unknown> | undefined;
+
+  const start =
+    asNumber(segment.start) ??
+    (asNumber(offsets?.from) !== null ? asNumber(offsets?.from)! / 1000 : null);
+  const end =
+    asNumber(segment.end) ??
+    (asNumber(offsets?.to) !== null ? asNumber(offsets?.to)! / 1000 : null);
+  if (start === null || end === null || typeof segment.text !== "string") {
+    return null;
+  }
+
+  return {
+    start,
+    end,
+    text: segment.text.trim(),
+    confidence: segmentConfidence(segment),
+  };
+}
+
+export function normalizeVerboseTranscript(data: unknown): Transcript {
+  const body = (data ?? {}) as Record<string, unknown>;
+  const rawSegments = Array.isArray(body.segments)
+    ? body.segments
+    : Array.isArray(body.transcription)
+    ? body.transcription
+    : [];
+  const segments = rawSegments
+    .map(toSegment)
+    .filter((s): s is TranscriptSegment => s !== null && s.text !== "");
+
+  const text =
+    typeof body.text === "string"
+      ? body.text.trim()
+      : segments.map((s) => s.text).join(" ");
+  const result = body.result as Record<string, unknown> | undefined;
+
+  return {
+    text,
+    language: normalizeLanguage(
+      body.language ?? body.detected_language ?? result?.language
+    ),
+    duration:
+      asNumber(body.duration) ??
+      (segments.length > 0 ? segments[segments.length - 1].end : null),
+    segments,
+  };
+}
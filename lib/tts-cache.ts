@@ -0,0 +1,207 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { readInt } from "@/lib/bi-config";
+import type { SpeechWord } from "@/lib/tts/alignment";
+
+// Cache for synthesized speech. Entries are keyed by a hash of everything
+// that shapes the audio (full text, voice, model and its settings), so two
+// texts only share audio when they would sound the same.
+//
+//   TTS_CACHE_MAX_BYTES       memory budget, least recently used entries
+//                             are evicted first (52428800; 0 disables)
+//   TTS_CACHE_DIR             directory for a second, persistent tier
+//                             (unset: memory only)
+//   TTS_CACHE_DISK_MAX_BYTES  budget for that directory, oldest files are
+//                             removed first (524288000)
+
+export type TTSCacheConfig = {
+  maxBytes: number;
+  dir?: string;
+  diskMaxBytes: number;
+};
+
+let cachedConfig: TTSCacheConfig | null = null;
+
+export function getTTSCacheConfig(): TTSCacheConfig {
+  if (cachedConfig) return cachedConfig;
+
+  cachedConfig = {
+    maxBytes: readInt("TTS_CACHE_MAX_BYTES", 50 * 1024 * 1024, {
+      min: 0,
+      max: 4 * 1024 * 1024 * 1024,
+    }),
+    dir: process.env.TTS_CACHE_DIR?.trim() || undefined,
+    diskMaxBytes: readInt("TTS_CACHE_DISK_MAX_BYTES", 500 * 1024 * 1024, {
+      min: 1024 * 1024,
+      max: Number.MAX_SAFE_INTEGER,
+    }),
+  };
+  return cachedConfig;
+}
+
+// JSON with sorted object keys, so equal settings always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function ttsCacheKey(request: Record<string, unknown>): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex");
+}
+
+// In-memory tier. A Map iterates in insertion order, so re-inserting on
+// every hit keeps the least recently used entry first.
+const memory = new Map<string, Uint8Array>();
+let memoryBytes = 0;
+
+function remember(key: string, audio: Uint8Array) {
+  const { maxBytes } = getTTSCacheConfig();
+  if (audio.byteLength > maxBytes) return;
+
+  const existing = memory.get(key);
+  if (existing) {
+    memory.delete(key);
+    memoryBytes -= existing.byteLength;
+  }
+  memory.set(key, audio);
+  memoryBytes += audio.byteLength;
+
+  for (const [oldestKey, oldest] of memory) {
+    if (memoryBytes <= maxBytes) break;
+    memory.delete(oldestKey);
+    memoryBytes -= oldest.byteLength;
+  }
+}
+
+// Disk tier: one file per entry, named after the key. File mtimes double as
+// the recency order; a hit touches the file.
+type DiskIndex = Map<string, { size: number; usedAt: number }>;
+let diskIndex: Promise<DiskIndex> | null = null;
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+const filePath = (dir: string, key: string) => path.join(dir, `${key}.audio`);
+
+function loadDiskIndex(dir: string): Promise<DiskIndex> {
+  diskIndex ??= (async () => {
+    await fs.mkdir(dir, { recursive: true });
+    const index: DiskIndex = new Map();
+    for (const name of await fs.readdir(dir)) {
+      const key = name.replace(/\.audio$/, "");
+      if (!KEY_PATTERN.test(key)) continue;
+      const stat = await fs.stat(path.join(dir, name)).catch(() => null);
+      if (stat) index.set(key, { size: stat.size, usedAt: stat.mtimeMs });
+    }
+    return index;
+  })();
+  return diskIndex;
+}
+
+async function readFromDisk(
+  dir: string,
+  key: string
+): Promise<Uint8Array | null> {
+  const index = await loadDiskIndex(dir);
+  const entry = index.get(key);
+  if (!entry) return null;
+
+  try {
+    const audio = new Uint8Array(await fs.readFile(filePath(dir, key)));
+    const now = new Date();
+    entry.usedAt = now.getTime();
+    await fs.utimes(filePath(dir, key), now, now).catch(() => {});
+    return audio;
+  } catch {
+    index.delete(key);
+    return null;
+  }
+}
+
+async function writeToDisk(dir: string, key: string, audio: Uint8Array) {
+  const { diskMaxBytes } = getTTSCacheConfig();
+  if (audio.byteLength > diskMaxBytes) return;
+
+  const index = await loadDiskIndex(dir);
+  const tempPath = `${filePath(dir, key)}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, audio);
+  await fs.rename(tempPath, filePath(dir, key));
+  index.set(key, { size: audio.byteLength, usedAt: Date.now() });
+
+  let total = 0;
+  index.forEach(({ size }) => (total += size));
+  if (total <= diskMaxBytes) return;
+
+  const oldestFirst = [...index].sort((a, b) => a[1].usedAt - b[1].usedAt);
+  for (const [oldKey, { size }] of oldestFirst) {
+    if (total <= diskMaxBytes) break;
+    index.delete(oldKey);
+    total -= size;
+    await fs.unlink(filePath(dir, oldKey)).catch(() => {});
+  }
+}
+
+export async function getCachedSpeech(key: string): Promise<Uint8Array | null> {
+  const hit = memory.get(key);
+  if (hit) {
+    remember(key, hit);
+    return hit;
+  }
+
+  const { dir } = getTTSCacheConfig();
+  if (!dir) return null;
+
+  try {
+    const audio = await readFromDisk(dir, key);
+    if (audio) remember(key, audio);
+    return audio;
+  } catch (error) {
+    console.error("Error reading the TTS disk cache:", error);
+    return null;
+  }
+}
+
+export async function cacheSpeech(key: string, audio: Uint8Array) {
+  remember(key, audio);
+
+  const { dir } = getTTSCacheConfig();
+  if (!dir) return;
+
+  try {
+    await writeToDisk(dir, key, audio);
+  } catch (error) {
+    console.error("Error writing the TTS disk cache:", error);
+  }
+}
+
+// Word timings a provider reported are kept next to its audio, as JSON under
+// a key of their own
+export async function getCachedWords(
+  key: string
+): Promise<SpeechWord[] | null> {
+  const json = await getCachedSpeech(key);
+  if (!json) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    return null;
+  }
+}
+
+export async function cacheWords(key: string, words: SpeechWord[]) {
+  await cacheSpeech(key, new TextEncoder().encode(JSON.stringify(words)));
+}
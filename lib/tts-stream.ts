@@ -0,0 +1,154 @@
+// Progressive playback for /api/tts. The route forwards MP3 chunks as the
+// speech provider produces them; feeding them to a MediaSource lets an
+// <audio> element start playing after the first chunk instead of after the
+// whole file.
+
+import { readLines } from "@/lib/bi-stream";
+import type { SpeechWord, TimedSpeechEvent } from "@/lib/tts/alignment";
+
+export const TTS_MIME_TYPE = "audio/mpeg";
+
+function canStream(mimeType: string): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "MediaSource" in window &&
+    MediaSource.isTypeSupported(mimeType)
+  );
+}
+
+// Append every chunk of the body to the source buffer, one at a time (a
+// SourceBuffer rejects appends while it is still updating). Stops quietly
+// once the audio element lets go of the MediaSource, e.g. when playback is
+// stopped early.
+async function pump(
+  mediaSource: MediaSource,
+  body: ReadableStream<Uint8Array<ArrayBuffer>>,
+  mimeType: string
+) {
+  const reader = body.getReader();
+  const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+  const updated = () =>
+    new Promise<void>((resolve, reject) => {
+      sourceBuffer.addEventListener("updateend", () => resolve(), {
+        once: true,
+      });
+      sourceBuffer.addEventListener("error", () => reject(), { once: true });
+    });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (mediaSource.readyState !== "open") {
+        await reader.cancel();
+        return;
+      }
+      sourceBuffer.appendBuffer(value);
+      await updated();
+    }
+    if (mediaSource.readyState === "open") mediaSource.endOfStream();
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    if (mediaSource.readyState === "open") {
+      console.error("Error streaming audio:", error);
+      mediaSource.endOfStream("network");
+    }
+  }
+}
+
+// An object URL an <audio> element can play while the response is still
+// downloading. Formats MediaSource can't take (WAV from the local provider,
+// or MP3 on iOS Safari) get a URL for the complete file instead. Revoke it
+// after playback.
+export async function audioUrlFromResponse(
+  response: Response,
+  mimeType = response.headers.get("content-type") ?? TTS_MIME_TYPE
+): Promise<string> {
+  if (!response.body) {
+    return URL.createObjectURL(await response.blob());
+  }
+  return audioUrlFromStream(response.body, mimeType);
+}
+
+async function audioUrlFromStream(
+  body: ReadableStream<Uint8Array<ArrayBuffer>>,
+  mimeType: string
+): Promise<string> {
+  if (!canStream(mimeType)) {
+    return URL.createObjectURL(
+      await new Response(body)
+        .blob()
+        .then((blob) => blob.slice(0, blob.size, mimeType))
+    );
+  }
+
+  const mediaSource = new MediaSource();
+  mediaSource.addEventListener(
+    "sourceopen",
+    () => {
+      pump(mediaSource, body, mimeType);
+    },
+    { once: true }
+  );
+  return URL.createObjectURL(mediaSource);
+}
+
+const fromBase64 = (data: string) =>
+  Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+// The same for `timestamps: true` requests, whose audio arrives base64
+// encoded between word timings. `onWords` gets each batch of timings as it
+// comes in, in order; estimated timings only follow the complete audio.
+export async function timedAudioUrlFromResponse(
+  response: Response,
+  onWords: (words: SpeechWord[]) => void
+): Promise<string> {
+  if (!response.body) throw new Error("Empty speech response");
+
+  let audio!: ReadableStreamDefaultController<Uint8Array<ArrayBuffer>>;
+  const body = new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      audio = controller;
+    },
+  });
+
+  let resolveType: (mimeType: string) => void = () => {};
+  const mimeType = new Promise<string>((resolve) => (resolveType = resolve));
+
+  readLines(response.body, (line) => {
+    const event: TimedSpeechEvent = JSON.parse(line);
+    if (event.type === "start") resolveType(event.content_type);
+    else if (event.type === "audio") audio.enqueue(fromBase64(event.data));
+    else if (event.type === "words") onWords(event.words);
+    else if (event.type === "error") throw new Error(event.error);
+  })
+    .then(() => audio.close())
+    .catch((error) => audio.error(error))
+    // A response that never said what it carries is treated as MP3
+    .finally(() => resolveType(TTS_MIME_TYPE));
+
+  return audioUrlFromStream(body, await mimeType);
+}
+
+// Ramp the volume down before pausing, so cutting narration short doesn't
+// click. Resolves once the audio is paused.
+export function fadeOutAudio(
+  audio: HTMLAudioElement,
+  durationMs = 250
+): Promise<void> {
+  const steps = 10;
+  const startVolume = audio.volume;
+  let step = 0;
+
+  return new Promise((resolve) => {
+    const timer = setInterval(() => {
+      step++;
+      audio.volume = Math.max(0, startVolume * (1 - step / steps));
+      if (step >= steps) {
+        clearInterval(timer);
+        audio.pause();
+        resolve();
+      }
+    }, durationMs / steps);
+  });
+}
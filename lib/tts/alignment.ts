@@ -0,0 +1,170 @@
+// Word timings for narration. With `timestamps: true`, /api/tts sends them
+// alongside the audio so the chat can follow what is being read. Providers
+// that report when each character is spoken (ElevenLabs) give exact timings;
+// for the others they are estimated from the length of the audio.
+//
+// The response is NDJSON, one event per line:
+//
+//   { type: "start", content_type }   MIME type of the audio
+//   { type: "audio", data }           a base64-encoded chunk of it
+//   { type: "words", words, estimated }
+//   { type: "error", error }          synthesis failed midway
+//   { type: "done" }
+
+export type SpeechWord = {
+  text: string;
+  // Character offset of the word in the synthesized text
+  offset: number;
+  // Seconds from the start of the audio
+  start: number;
+  end: number;
+};
+
+export type CharacterTiming = { char: string; start: number; end: number };
+
+export type TimedSpeechEvent =
+  | { type: "start"; content_type: string }
+  | { type: "audio"; data: string }
+  | { type: "words"; words: SpeechWord[]; estimated: boolean }
+  | { type: "error"; error: string }
+  | { type: "done" };
+
+// Groups character timings into words as they stream in. Characters arrive
+// in text order, so a word is complete once whitespace follows it.
+export function createWordAligner() {
+  let offset = 0;
+  let current: SpeechWord | null = null;
+
+  return {
+    push(characters: CharacterTiming[]): SpeechWord[] {
+      const done: SpeechWord[] = [];
+      characters.forEach(({ char, start, end }) => {
+        if (/^\s+$/.test(char)) {
+          if (current) done.push(current);
+          current = null;
+        } else if (current) {
+          current.text += char;
+          current.end = end;
+        } else {
+          current = { text: char, offset, start, end };
+        }
+        offset += char.length;
+      });
+      return done;
+    },
+    flush(): SpeechWord[] {
+      const rest = current ? [current] : [];
+      current = null;
+      return rest;
+    },
+  };
+}
+
+// Relative time each piece of speech takes, in characters. Matches the
+// local provider (55ms per character, at least 120ms a word, 70ms between
+// words and 250ms after a sentence) and is close enough for real voices.
+const MIN_WORD_WEIGHT = 2;
+const WORD_GAP_WEIGHT = 1.3;
+const CLAUSE_GAP_WEIGHT = 2.5;
+const SENTENCE_GAP_WEIGHT = 4.5;
+
+// Used when the length of the audio can't be read from its bytes
+const CHARS_PER_SECOND = 15;
+
+const gapAfter = (word: string) =>
+  /[.!?؟]["')\]]*$/.test(word)
+    ? SENTENCE_GAP_WEIGHT
+    : /[,;:،؛]["')\]]*$/.test(word)
+    ? CLAUSE_GAP_WEIGHT
+    : WORD_GAP_WEIGHT;
+
+// Spread `duration` seconds over the words of the text, longer words and
+// punctuation pauses taking more of it
+export function estimateWords(
+  text: string,
+  duration: number | null
+): SpeechWord[] {
+  const tokens = [...text.matchAll(/\S+/g)].map((match) => ({
+    text: match[0],
+    offset: match.index,
+    weight: Math.max(MIN_WORD_WEIGHT, match[0].length),
+    gap: gapAfter(match[0]),
+  }));
+  const total = tokens.reduce((sum, t) => sum + t.weight + t.gap, 0);
+  if (total === 0) return [];
+
+  const secondsPerWeight = duration ? duration / total : 1 / CHARS_PER_SECOND;
+  let time = 0;
+  return tokens.map(({ text, offset, weight, gap }) => {
+    const start = time;
+    const end = start + weight * secondsPerWeight;
+    time = end + gap * secondsPerWeight;
+    return { text, offset, start, end };
+  });
+}
+
+// Bitrates of MPEG audio layer III in kbit/s, by header index
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+function wavDuration(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.byteLength < 12 || tag(0) !== "RIFF" || tag(8) !== "WAVE") {
+    return null;
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (tag(offset) === "fmt " && offset + 16 <= bytes.byteLength) {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (tag(offset) === "data" && byteRate > 0) {
+      const dataBytes = Math.min(size, bytes.byteLength - offset - 8);
+      return dataBytes / byteRate;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// Assumes a constant bitrate, which is what the providers stream
+function mp3Duration(bytes: Uint8Array): number | null {
+  let offset = 0;
+  // Skip an ID3v2 tag
+  if (String.fromCharCode(...bytes.subarray(0, 3)) === "ID3") {
+    offset =
+      10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+  }
+
+  for (; offset + 4 <= bytes.byteLength; offset++) {
+    if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+      continue;
+    }
+    const version = (bytes[offset + 1] >> 3) & 0x03; // 3 is MPEG 1
+    const layer = (bytes[offset + 1] >> 1) & 0x03; // 1 is layer III
+    const bitrateIndex = bytes[offset + 2] >> 4;
+    if (version === 1 || layer !== 1) continue;
+    if (bitrateIndex === 0 || bitrateIndex === 15) continue;
+
+    const kbps = (version === 3 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[
+      bitrateIndex
+    ];
+    return ((bytes.byteLength - offset) * 8) / (kbps * 1000);
+  }
+  return null;
+}
+
+// Length of the audio in seconds, or null for formats it can't read
+export function audioDuration(
+  bytes: Uint8Array,
+  contentType: string
+): number | null {
+  if (/wav/.test(contentType)) return wavDuration(bytes);
+  if (/mpeg|mp3/.test(contentType)) return mp3Duration(bytes);
+  return null;
+}
@@ -0,0 +1,134 @@
+import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
+import { ConfigError } from "@/lib/bi-config";
+import type { CharacterTiming } from "@/lib/tts/alignment";
+import type {
+  SpeechRequest,
+  TimedSpeechChunk,
+  TTSProvider,
+} from "@/lib/tts/providers/types";
+
+// ElevenLabs through its SDK, using the streaming endpoint so audio starts
+// flowing before synthesis has finished
+
+const OUTPUT_FORMAT = "mp3_22050_32"; // Lower quality for speed
+
+// Models that take a languageCode to enforce; eleven_turbo_v2 only speaks
+// English, which is why Arabic switches to turbo v2.5
+const LANGUAGE_CODE_MODELS = /^eleven_(turbo|flash)_v2_5$/;
+
+const asNumber = (value: unknown) =>
+  typeof value === "number" ? value : undefined;
+
+// Body shared by the plain and the with-timestamps streaming endpoints
+function streamRequest({ text, model, settings, language }: SpeechRequest) {
+  return {
+    text,
+    modelId: model,
+    languageCode:
+      language && LANGUAGE_CODE_MODELS.test(model) ? language : undefined,
+    outputFormat: OUTPUT_FORMAT,
+    optimizeStreamingLatency: 4, // Maximum optimization for streaming
+    voiceSettings: {
+      stability: asNumber(settings.stability),
+      similarityBoost: asNumber(settings.similarity_boost),
+      style: asNumber(settings.style),
+      useSpeakerBoost:
+        typeof settings.use_speaker_boost === "boolean"
+          ? settings.use_speaker_boost
+          : undefined,
+      speed: asNumber(settings.speed),
+    },
+  } as const;
+}
+
+export function createElevenLabsProvider(): TTSProvider {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) {
+    throw new ConfigError("ELEVENLABS_API_KEY is not set");
+  }
+  const client = new ElevenLabsClient({ apiKey });
+
+  return {
+    id: "elevenlabs",
+    contentType: "audio/mpeg",
+    defaults: {
+      voice: "ZTWUZx6Q4pIcdl79Kctt",
+      model: "eleven_turbo_v2", // Faster model
+      settings: {
+        stability: 0.5, // Lower for faster generation
+        similarity_boost: 0.8,
+        style: 0.0, // Remove style for speed
+        use_speaker_boost: false, // Disable for speed
+      },
+    },
+    languages: {
+      ar: { model: "eleven_turbo_v2_5" },
+    },
+    // The default voice plus a few of ElevenLabs' premade ones
+    voices: [
+      { id: "ZTWUZx6Q4pIcdl79Kctt", label: "Alef" },
+      { id: "21m00Tcm4TlvDq8ikWAM", label: "Rachel" },
+      { id: "EXAVITQu4vr4xnSDxMaL", label: "Sarah" },
+      { id: "pNInz6obpgDQGcFmaJgB", label: "Adam" },
+      { id: "ErXwobaYiN019PkySvjV", label: "Antoni" },
+    ],
+    settingKeys: [
+      "stability",
+      "similarity_boost",
+      "style",
+      "use_speaker_boost",
+      "speed",
+    ],
+    async synthesize(request) {
+      const stream = await client.textToSpeech.stream(
+        request.voice,
+        streamRequest(request),
+        { abortSignal: request.signal, maxRetries: 0 }
+      );
+      return stream;
+    },
+    async synthesizeWithTimestamps(request) {
+      const chunks = await client.textToSpeech.streamWithTimestamps(
+        request.voice,
+        streamRequest(request),
+        { abortSignal: request.signal, maxRetries: 0 }
+      );
+      const iterator = chunks[Symbol.asyncIterator]();
+      // Timings should count from the start of the whole audio; if a
+      // chunk's count restarts, shift it past the previous chunk
+      let spoken = 0;
+
+      return new ReadableStream<TimedSpeechChunk>({
+        async pull(controller) {
+          const { done, value } = await iterator.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+
+          const {
+            characters = [],
+            characterStartTimesSeconds: starts = [],
+            characterEndTimesSeconds: ends = [],
+          } = value.alignment ?? {};
+          const shift =
+            starts.length > 0 && starts[0] < spoken - 0.05 ? spoken : 0;
+          const timings: CharacterTiming[] = characters.map((char, i) => ({
+            char,
+            start: starts[i] + shift,
+            end: (ends[i] ?? starts[i]) + shift,
+          }));
+          if (timings.length > 0) spoken = timings[timings.length - 1].end;
+
+          controller.enqueue({
+            audio: new Uint8Array(Buffer.from(value.audioBase64, "base64")),
+            characters: timings,
+          });
+        },
+        async cancel() {
+          await iterator.return?.();
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { ConfigError } from "@/lib/bi-config";
+import { createElevenLabsProvider } from "@/lib/tts/providers/elevenlabs";
+import { createLocalProvider } from "@/lib/tts/providers/local";
+import { createOpenAIProvider } from "@/lib/tts/providers/openai";
+import type {
+  LanguageVoice,
+  SpeechSettings,
+  TTSProvider,
+} from "@/lib/tts/providers/types";
+
+// Speech providers for /api/tts. The deployment picks a default and the
+// providers requests may switch to; model, voice and settings can be set
+// per deployment and overridden per request.
+//
+//   TTS_PROVIDER        default provider (elevenlabs when ELEVENLABS_API_KEY
+//                       is set; otherwise local outside production and
+//                       required in production)
+//   TTS_PROVIDERS       comma-separated providers a request may pick besides
+//                       the default (none)
+//   TTS_MODEL           model for the default provider
+//   TTS_VOICE           voice for the default provider
+//   TTS_VOICE_SETTINGS  JSON object of settings for the default provider
+//   TTS_LANGUAGE_VOICES JSON object mapping ISO 639-1 codes to a voice and
+//                       model for the default provider, e.g.
+//                       {"ar":{"voice":"...","model":"eleven_turbo_v2_5"}}
+
+const providers: Record<string, () => TTSProvider> = {
+  elevenlabs: createElevenLabsProvider,
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+};
+
+export type TTSConfig = {
+  provider: string;
+  allowedProviders: string[];
+  model?: string;
+  voice?: string;
+  settings: SpeechSettings;
+  languages: Record<string, LanguageVoice>;
+};
+
+function readProviderName(name: string, raw: string): string {
+  const id = raw.trim().toLowerCase();
+  if (!providers[id]) {
+    throw new ConfigError(
+      `${name} must list providers from ${Object.keys(providers).join(
+        ", "
+      )}, got "${raw}"`
+    );
+  }
+  return id;
+}
+
+function readSettings(): SpeechSettings {
+  const raw = process.env.TTS_VOICE_SETTINGS?.trim();
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigError("TTS_VOICE_SETTINGS is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError("TTS_VOICE_SETTINGS must be a JSON object");
+  }
+  return pickSettings(parsed as Record<string, unknown>);
+}
+
+function readLanguageVoices(): Record<string, LanguageVoice> {
+  const raw = process.env.TTS_LANGUAGE_VOICES?.trim();
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigError("TTS_LANGUAGE_VOICES is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError("TTS_LANGUAGE_VOICES must be a JSON object");
+  }
+
+  const languages: Record<string, LanguageVoice> = {};
+  for (const [language, entry] of Object.entries(parsed)) {
+    const { voice, model } = (entry ?? {}) as Record<string, unknown>;
+    if (
+      !/^[a-z]{2}$/.test(language) ||
+      (voice !== undefined && typeof voice !== "string") ||
+      (model !== undefined && typeof model !== "string")
+    ) {
+      throw new ConfigError(
+        `TTS_LANGUAGE_VOICES entries must map a two-letter language code to { voice?, model? }, got "${language}"`
+      );
+    }
+    // Leave unset fields out so they don't mask the provider's own choice
+    languages[language] = {
+      ...(voice ? { voice } : {}),
+      ...(model ? { model } : {}),
+    };
+  }
+  return languages;
+}
+
+// Keep primitive values only, optionally limited to the given keys
+export function pickSettings(
+  input: Record<string, unknown>,
+  keys?: string[]
+): SpeechSettings {
+  const settings: SpeechSettings = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (keys && !keys.includes(key)) continue;
+    if (
+      typeof value === "string" ||
+      typeof value === "boolean" ||
+      (typeof value === "number" && Number.isFinite(value))
+    ) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
+
+let cachedConfig: TTSConfig | null = null;
+
+export function getTTSConfig(): TTSConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let providerName = process.env.TTS_PROVIDER?.trim();
+  if (!providerName) {
+    // The local provider only plays tones; production has to pick a voice
+    if (process.env.ELEVENLABS_API_KEY) {
+      providerName = "elevenlabs";
+    } else if (process.env.NODE_ENV === "production") {
+      throw new ConfigError("TTS_PROVIDER is not set");
+    } else {
+      providerName = "local";
+    }
+  }
+  const provider = readProviderName("TTS_PROVIDER", providerName);
+  const allowed = (process.env.TTS_PROVIDERS ?? "")
+    .split(",")
+    .filter((name) => name.trim())
+    .map((name) => readProviderName("TTS_PROVIDERS", name));
+
+  cachedConfig = {
+    provider,
+    allowedProviders: [...new Set([provider, ...allowed])],
+    model: process.env.TTS_MODEL?.trim() || undefined,
+    voice: process.env.TTS_VOICE?.trim() || undefined,
+    settings: readSettings(),
+    languages: readLanguageVoices(),
+  };
+  return cachedConfig;
+}
+
+const instances = new Map<string, TTSProvider>();
+
+// Throws ConfigError when the provider is missing its credentials
+export function getTTSProvider(id: string): TTSProvider {
+  let provider = instances.get(id);
+  if (!provider) {
+    provider = providers[id]();
+    instances.set(id, provider);
+  }
+  return provider;
+}
+
+export type {
+  LanguageVoice,
+  SpeechRequest,
+  SpeechSettings,
+  TimedSpeechChunk,
+  TTSProvider,
+  TTSVoice,
+} from "@/lib/tts/providers/types";
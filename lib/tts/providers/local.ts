@@ -0,0 +1,125 @@
+import type { TTSProvider } from "@/lib/tts/providers/types";
+
+// Offline stand-in for development and CI: renders a short tone per word,
+// with pauses between words and sentences, as a WAV file. It costs nothing
+// and keeps narration timing roughly realistic (longer text, longer audio).
+
+const SAMPLE_RATE = 8_000;
+const AMPLITUDE = 0.2;
+// Per-character length of a word's tone, and the pauses after words and
+// sentences, at speed 1
+const MS_PER_CHAR = 55;
+const MIN_WORD_MS = 120;
+const WORD_GAP_MS = 70;
+const SENTENCE_GAP_MS = 250;
+// Ramp at both ends of a tone so it doesn't click
+const FADE_MS = 10;
+
+// Base frequency per voice, in Hz
+const VOICES: Record<string, number> = {
+  low: 220,
+  mid: 440,
+  high: 660,
+};
+
+function wavHeader(dataBytes: number): Uint8Array {
+  const header = new DataView(new ArrayBuffer(44));
+  const ascii = (offset: number, text: string) =>
+    [...text].forEach((char, i) =>
+      header.setUint8(offset + i, char.charCodeAt(0))
+    );
+
+  ascii(0, "RIFF");
+  header.setUint32(4, 36 + dataBytes, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  header.setUint32(16, 16, true); // PCM chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, SAMPLE_RATE, true);
+  header.setUint32(28, SAMPLE_RATE * 2, true); // byte rate
+  header.setUint16(32, 2, true); // block align
+  header.setUint16(34, 16, true); // bits per sample
+  ascii(36, "data");
+  header.setUint32(40, dataBytes, true);
+  return new Uint8Array(header.buffer);
+}
+
+function renderToneSpeech(
+  text: string,
+  frequency: number,
+  speed: number
+): Uint8Array<ArrayBuffer> {
+  const samplesFor = (ms: number) =>
+    Math.round((ms / 1000 / speed) * SAMPLE_RATE);
+  const words = text.split(/\s+/).filter(Boolean);
+
+  const segments: { samples: number; tone: boolean }[] = [];
+  words.forEach((word) => {
+    segments.push({
+      samples: samplesFor(Math.max(MIN_WORD_MS, word.length * MS_PER_CHAR)),
+      tone: true,
+    });
+    segments.push({
+      samples: samplesFor(/[.!?]$/.test(word) ? SENTENCE_GAP_MS : WORD_GAP_MS),
+      tone: false,
+    });
+  });
+
+  const total = segments.reduce((sum, s) => sum + s.samples, 0);
+  const pcm = new DataView(new ArrayBuffer(total * 2));
+  const fadeSamples = samplesFor(FADE_MS);
+  let offset = 0;
+
+  segments.forEach(({ samples, tone }, index) => {
+    if (tone) {
+      // Alternate pitch a little so words are distinguishable
+      const pitch = frequency * (index % 4 === 0 ? 1 : 1.12);
+      for (let i = 0; i < samples; i++) {
+        const fade = Math.min(1, i / fadeSamples, (samples - i) / fadeSamples);
+        const value =
+          Math.sin((2 * Math.PI * pitch * i) / SAMPLE_RATE) * AMPLITUDE * fade;
+        pcm.setInt16((offset + i) * 2, Math.round(value * 0x7fff), true);
+      }
+    }
+    offset += samples;
+  });
+
+  const wav = new Uint8Array(44 + total * 2);
+  wav.set(wavHeader(total * 2));
+  wav.set(new Uint8Array(pcm.buffer), 44);
+  return wav;
+}
+
+export function createLocalProvider(): TTSProvider {
+  return {
+    id: "local",
+    contentType: "audio/wav",
+    defaults: { voice: "mid", model: "tone", settings: { speed: 1 } },
+    // A different pitch makes it audible which voice was picked
+    languages: { ar: { voice: "low" } },
+    voices: [
+      { id: "low", label: "Low tone" },
+      { id: "mid", label: "Middle tone" },
+      { id: "high", label: "High tone" },
+    ],
+    settingKeys: ["speed", "frequency"],
+    async synthesize({ text, voice, settings }) {
+      const frequency =
+        typeof settings.frequency === "number" &&
+        settings.frequency >= 50 &&
+        settings.frequency <= 2_000
+          ? settings.frequency
+          : VOICES[voice] ?? VOICES.mid;
+      const speed =
+        typeof settings.speed === "number" &&
+        settings.speed >= 0.25 &&
+        settings.speed <= 4
+          ? settings.speed
+          : 1;
+
+      const wav = renderToneSpeech(text, frequency, speed);
+      return new Blob([wav]).stream();
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import OpenAI from "openai";
+import { ConfigError } from "@/lib/bi-config";
+import type { TTSProvider } from "@/lib/tts/providers/types";
+
+// OpenAI's speech endpoint; the MP3 body streams while it is generated
+
+const VOICES = [
+  "alloy",
+  "ash",
+  "coral",
+  "echo",
+  "fable",
+  "nova",
+  "onyx",
+  "sage",
+  "shimmer",
+];
+
+export function createOpenAIProvider(): TTSProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new ConfigError("OPENAI_API_KEY is not set");
+  }
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    id: "openai",
+    contentType: "audio/mpeg",
+    defaults: {
+      voice: "alloy",
+      model: "gpt-4o-mini-tts",
+      settings: {},
+    },
+    voices: VOICES.map((id) => ({
+      id,
+      label: id[0].toUpperCase() + id.slice(1),
+    })),
+    settingKeys: ["speed", "instructions"],
+    async synthesize({ text, voice, model, settings, signal }) {
+      const response = await openai.audio.speech.create(
+        {
+          input: text,
+          voice,
+          model,
+          response_format: "mp3",
+          speed:
+            typeof settings.speed === "number" ? settings.speed : undefined,
+          instructions:
+            typeof settings.instructions === "string"
+              ? settings.instructions
+              : undefined,
+        },
+        { signal }
+      );
+      if (!response.body) {
+        throw new Error("OpenAI returned no audio");
+      }
+      return response.body;
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import type { CharacterTiming } from "@/lib/tts/alignment";
+
+// Primitive knobs such as stability or speed; each provider lists the ones
+// it understands in `settingKeys`
+export type SpeechSettings = Record<string, string | number | boolean>;
+
+// Voice and model to use for text in a given language
+export type LanguageVoice = { voice?: string; model?: string };
+
+// A voice offered in the settings panel
+export type TTSVoice = { id: string; label: string };
+
+export type SpeechRequest = {
+  text: string;
+  voice: string;
+  model: string;
+  settings: SpeechSettings;
+  // ISO 639-1 code of the text, when known
+  language?: string;
+  // Aborted when the browser goes away mid-synthesis
+  signal?: AbortSignal;
+};
+
+// A piece of audio and the characters spoken in it, with their start and
+// end in seconds from the start of the whole audio
+export type TimedSpeechChunk = {
+  audio: Uint8Array;
+  characters: CharacterTiming[];
+};
+
+// A speech engine behind /api/tts. Providers turn text into an audio
+// stream; validation, limits and caching are the same for all of them.
+export type TTSProvider = {
+  id: string;
+  // MIME type of everything synthesize() returns
+  contentType: string;
+  defaults: { voice: string; model: string; settings: SpeechSettings };
+  // Per-language replacements for the default voice and model, keyed by
+  // ISO 639-1 code
+  languages?: Record<string, LanguageVoice>;
+  // Voices users can choose between
+  voices: TTSVoice[];
+  // Settings a request may override; anything else is ignored
+  settingKeys: string[];
+  synthesize(request: SpeechRequest): Promise<ReadableStream<Uint8Array>>;
+  // Same audio plus character timings, for providers that report them;
+  // the others get estimated word timings instead
+  synthesizeWithTimestamps?(
+    request: SpeechRequest
+  ): Promise<ReadableStream<TimedSpeechChunk>>;
+};
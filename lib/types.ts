@@ -0,0 +1,83 @@
+import type { SQLGuardCode } from "@/lib/sql-guard";
+
+export type APIResponse = {
+  sql_query?: string;
+  results?: Array<Record<string, string | number>>;
+  visualization?: string;
+  visualization_reason?: string;
+  formatted_data?: {
+    image_base64?: string;
+  };
+  insights?: string;
+  // The backend's SQL, kept once a user edits and re-runs the query
+  original_sql_query?: string;
+  // Row count the proxy cut `results` down to, when it had to
+  truncated_at?: number;
+  // Why the SQL guard refused to run or show this answer's query
+  sql_rejection?: { code: SQLGuardCode; message: string };
+  // Client-side additions: the question that produced this answer and the
+  // object URL of its pre-generated narration
+  question?: string;
+  preGeneratedAudioUrl?: string;
+};
+
+export type Message = {
+  id: number;
+  content: string;
+  sender: "user" | "assistant";
+  timestamp: string;
+  // The message this one follows, or null for the first one; see
+  // lib/conversation-branches.ts
+  parentId?: number | null;
+  isTyping?: boolean;
+  // Set on the note left when the user stopped a question mid-answer
+  cancelled?: boolean;
+  apiData?: APIResponse;
+  audioData?: {
+    // Blob and object URL only exist for recordings made in this session;
+    // messages reopened from the conversation store keep the duration only.
+    audioBlob?: Blob;
+    audioUrl?: string;
+    duration?: number;
+  };
+  // What transcription heard, for voice messages
+  transcript?: string;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: Message[];
+};
+
+export type ConversationSummary = Omit<Conversation, "messages"> & {
+  messageCount: number;
+};
+
+export type DashboardTileView = "chart" | "table";
+
+// Size of a tile in grid cells; the order of the tiles array is the
+// reading order of the grid
+export type DashboardTileSize = { w: number; h: number };
+
+export type DashboardTile = {
+  id: string;
+  title: string;
+  question: string;
+  sqlQuery?: string;
+  view: DashboardTileView;
+  size: DashboardTileSize;
+  // Seconds between automatic refreshes; null refreshes on demand only
+  refreshIntervalSec: number | null;
+  // Last answer the tile rendered, shown until the next refresh lands
+  snapshot: Pick<
+    APIResponse,
+    "sql_query" | "results" | "visualization" | "formatted_data" | "insights"
+  >;
+  refreshedAt: string;
+  // The chat answer the tile was pinned from
+  source?: { conversationId: string; messageId: number };
+  createdAt: string;
+};
@@ -0,0 +1,232 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { readInt } from "@/lib/bi-config";
+import { getSessionUser } from "@/lib/auth/server";
+import { UsageLimitError } from "@/lib/usage-limits";
+
+// Rate limits and daily quotas for the routes that spend paid API credits.
+// Everything comes from the environment; 0 turns a limit off:
+//
+//   RATE_LIMIT_WINDOW_SEC          length of a rate-limit window (60)
+//   RATE_LIMIT_<ROUTE>_PER_USER    requests per window per signed-in user
+//   RATE_LIMIT_<ROUTE>_PER_IP      requests per window per client address
+//                                  (ROUTE is QUERY 20/60, WHISPER 10/30,
+//                                  TTS 60/180)
+//   TRUSTED_PROXY_COUNT            proxies in front of the app that append
+//                                  to X-Forwarded-For (0: none, so per-IP
+//                                  limits are off)
+//   QUOTA_QUERY_PER_DAY            questions per user per day (500)
+//   QUOTA_WHISPER_SECONDS_PER_DAY  seconds of audio transcribed per user
+//                                  per day (3600)
+//   QUOTA_TTS_CHARS_PER_DAY        characters synthesized per user per day
+//                                  (200000)
+//   WHISPER_MAX_AUDIO_BYTES        largest accepted recording (10485760)
+//   WHISPER_MAX_AUDIO_SEC          longest accepted recording (120)
+//   TTS_MAX_CHARS                  longest text per synthesis request (5000)
+//
+// Limits and quotas follow the signed-in user. Counters live in memory, so
+// each server process keeps its own and they reset on restart. Days roll
+// over at midnight UTC.
+
+export type LimitedRoute = "query" | "whisper" | "tts";
+
+type RouteLimits = {
+  perUser: number;
+  perIp: number;
+  perDay: number;
+};
+
+export type UsageLimitsConfig = {
+  windowSec: number;
+  routes: Record<LimitedRoute, RouteLimits>;
+  maxAudioBytes: number;
+  maxAudioSec: number;
+  maxTtsChars: number;
+  trustedProxies: number;
+};
+
+const DEFAULT_LIMITS: Record<LimitedRoute, RouteLimits> = {
+  query: { perUser: 20, perIp: 60, perDay: 500 },
+  whisper: { perUser: 10, perIp: 30, perDay: 3_600 },
+  tts: { perUser: 60, perIp: 180, perDay: 200_000 },
+};
+
+const QUOTA_VARIABLES: Record<LimitedRoute, string> = {
+  query: "QUOTA_QUERY_PER_DAY",
+  whisper: "QUOTA_WHISPER_SECONDS_PER_DAY",
+  tts: "QUOTA_TTS_CHARS_PER_DAY",
+};
+
+// What the daily quota of each route counts, for error messages
+const QUOTA_UNITS: Record<LimitedRoute, string> = {
+  query: "questions",
+  whisper: "seconds of audio",
+  tts: "characters of speech",
+};
+
+const MAX_COUNT = 10_000_000;
+
+let cachedConfig: UsageLimitsConfig | null = null;
+
+// Parsed once per server process; throws ConfigError on invalid settings
+export function getUsageLimitsConfig(): UsageLimitsConfig {
+  if (cachedConfig) return cachedConfig;
+
+  const routes = {} as Record<LimitedRoute, RouteLimits>;
+  for (const route of Object.keys(DEFAULT_LIMITS) as LimitedRoute[]) {
+    const defaults = DEFAULT_LIMITS[route];
+    const prefix = `RATE_LIMIT_${route.toUpperCase()}`;
+    routes[route] = {
+      perUser: readInt(`${prefix}_PER_USER`, defaults.perUser, {
+        min: 0,
+        max: MAX_COUNT,
+      }),
+      perIp: readInt(`${prefix}_PER_IP`, defaults.perIp, {
+        min: 0,
+        max: MAX_COUNT,
+      }),
+      perDay: readInt(QUOTA_VARIABLES[route], defaults.perDay, {
+        min: 0,
+        max: MAX_COUNT,
+      }),
+    };
+  }
+
+  cachedConfig = {
+    windowSec: readInt("RATE_LIMIT_WINDOW_SEC", 60, { min: 1, max: 86_400 }),
+    routes,
+    maxAudioBytes: readInt("WHISPER_MAX_AUDIO_BYTES", 10 * 1024 * 1024, {
+      min: 1_024,
+      // OpenAI's transcription API rejects anything larger
+      max: 25 * 1024 * 1024,
+    }),
+    maxAudioSec: readInt("WHISPER_MAX_AUDIO_SEC", 120, { min: 1, max: 3_600 }),
+    maxTtsChars: readInt("TTS_MAX_CHARS", 5_000, { min: 1, max: 100_000 }),
+    trustedProxies: readInt("TRUSTED_PROXY_COUNT", 0, { min: 0, max: 10 }),
+  };
+  return cachedConfig;
+}
+
+type Window = { start: number; count: number };
+type DailyUsage = { day: string; used: number };
+
+const windows = new Map<string, Window>();
+const dailyUsage = new Map<string, DailyUsage>();
+
+// Drop finished windows and past days now and then so idle clients don't
+// pile up
+const PRUNE_THRESHOLD = 10_000;
+
+const utcDay = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+function pruneCounters(now: number, windowMs: number) {
+  if (windows.size >= PRUNE_THRESHOLD) {
+    for (const [key, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(key);
+    }
+  }
+  if (dailyUsage.size >= PRUNE_THRESHOLD) {
+    const today = utcDay(now);
+    for (const [key, usage] of dailyUsage) {
+      if (usage.day !== today) dailyUsage.delete(key);
+    }
+  }
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+// The client address as seen by the outermost of `trustedProxies` proxies.
+// Anything further left in X-Forwarded-For came from the client and can be
+// made up, so without a trusted proxy there is no address to go by.
+export function getClientIp(
+  request: NextRequest,
+  trustedProxies: number
+): string | null {
+  if (trustedProxies === 0) return null;
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return forwarded.at(-trustedProxies) ?? null;
+}
+
+// Count one request (and `cost` units of the daily quota) against the
+// signed-in user, and against the client address when a trusted proxy
+// reports it. Throws UsageLimitError without counting anything when a limit
+// would be exceeded.
+export async function enforceUsageLimits(
+  request: NextRequest,
+  route: LimitedRoute,
+  cost = 1
+): Promise<void> {
+  const { windowSec, routes, trustedProxies } = getUsageLimitsConfig();
+  const limits = routes[route];
+  // The middleware only lets signed-in requests through to limited routes
+  const user = await getSessionUser();
+  if (!user) throw new Error("Usage limits need a signed-in user");
+  const ip = getClientIp(request, trustedProxies);
+  const now = Date.now();
+  const windowMs = windowSec * 1000;
+
+  pruneCounters(now, windowMs);
+
+  const buckets = [
+    { key: `${route}:user:${user.id}`, limit: limits.perUser },
+    ...(ip ? [{ key: `${route}:ip:${ip}`, limit: limits.perIp }] : []),
+  ].filter(({ limit }) => limit > 0);
+
+  for (const { key, limit } of buckets) {
+    const window = windows.get(key);
+    if (window && now - window.start < windowMs && window.count >= limit) {
+      throw new UsageLimitError(
+        `At most ${limit} requests per ${windowSec} seconds`,
+        "rate_limited",
+        Math.ceil((window.start + windowMs - now) / 1000)
+      );
+    }
+  }
+
+  const quotaKey = `${route}:user:${user.id}`;
+  const day = utcDay(now);
+  const usage = dailyUsage.get(quotaKey);
+  const used = usage?.day === day ? usage.used : 0;
+  if (limits.perDay > 0 && used + cost > limits.perDay) {
+    throw new UsageLimitError(
+      `Daily quota of ${limits.perDay} ${QUOTA_UNITS[route]} reached`,
+      "quota_exceeded",
+      secondsUntilUtcMidnight(now)
+    );
+  }
+
+  for (const { key } of buckets) {
+    const window = windows.get(key);
+    if (window && now - window.start < windowMs) {
+      window.count += 1;
+    } else {
+      windows.set(key, { start: now, count: 1 });
+    }
+  }
+  dailyUsage.set(quotaKey, { day, used: used + cost });
+}
+
+export function usageLimitResponse(
+  error: UsageLimitError,
+  headers: Record<string, string> = {}
+) {
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: error.code,
+      retry_after: error.retryAfterSec,
+    },
+    {
+      status: error.status,
+      headers: error.retryAfterSec
+        ? { ...headers, "Retry-After": String(error.retryAfterSec) }
+        : headers,
+    }
+  );
+}
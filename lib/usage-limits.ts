@@ -0,0 +1,75 @@
+// Limits on the paid speech and query routes, shared between the routes
+// that enforce them (see lib/usage-limiter.ts) and the chat that explains
+// them to the user.
+
+export type UsageLimitCode =
+  | "rate_limited"
+  | "quota_exceeded"
+  | "audio_too_large"
+  | "audio_too_long"
+  | "text_too_long";
+
+export class UsageLimitError extends Error {
+  constructor(
+    message: string,
+    public code: UsageLimitCode,
+    // Seconds until the request can succeed again; unset for payloads that
+    // are too big no matter when they are sent
+    public retryAfterSec?: number
+  ) {
+    super(message);
+    this.name = "UsageLimitError";
+  }
+
+  get status() {
+    return this.code === "rate_limited" || this.code === "quota_exceeded"
+      ? 429
+      : 413;
+  }
+}
+
+export const usageLimitExplanations: Record<UsageLimitCode, string> = {
+  rate_limited: "You're sending requests faster than this dashboard allows.",
+  quota_exceeded: "You've used up today's allowance for this feature.",
+  audio_too_large: "The recording is too large to transcribe.",
+  audio_too_long: "The recording is too long to transcribe.",
+  text_too_long: "The text is too long to read aloud.",
+};
+
+export function isUsageLimitCode(value: unknown): value is UsageLimitCode {
+  return typeof value === "string" && value in usageLimitExplanations;
+}
+
+// 42 -> "42 seconds", 150 -> "3 minutes", 7200 -> "2 hours"
+export function formatRetryAfter(seconds: number): string {
+  const plural = (n: number, unit: string) =>
+    `${n} ${unit}${n === 1 ? "" : "s"}`;
+  if (seconds < 60) return plural(Math.max(1, Math.ceil(seconds)), "second");
+  if (seconds < 60 * 60) return plural(Math.ceil(seconds / 60), "minute");
+  return plural(Math.ceil(seconds / 3600), "hour");
+}
+
+export function explainUsageLimit(error: UsageLimitError): string {
+  const explanation = usageLimitExplanations[error.code];
+  return error.retryAfterSec
+    ? `${explanation} Try again in ${formatRetryAfter(error.retryAfterSec)}.`
+    : `${explanation} ${error.message}.`;
+}
+
+// Rebuild the error from a 413/429 response body, or null when the response
+// is about something else
+export function toUsageLimitError(
+  body: unknown,
+  retryAfterHeader?: string | null
+): UsageLimitError | null {
+  const { error, code, retry_after } = (body ?? {}) as Record<string, unknown>;
+  if (!isUsageLimitCode(code)) return null;
+
+  const retryAfter =
+    typeof retry_after === "number" ? retry_after : Number(retryAfterHeader);
+  return new UsageLimitError(
+    typeof error === "string" ? error : usageLimitExplanations[code],
+    code,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+  );
+}
@@ -0,0 +1,103 @@
+// Voice activity detection for hands-free recording. Reads the loudness of
+// the microphone from an AnalyserNode every animation frame and reports
+// when someone has spoken and then gone quiet.
+//
+// Loudness is the RMS of the waveform. The threshold adapts to the room:
+// while nobody is speaking it tracks the background level, and speech has to
+// stand clearly above that (or above a fixed floor in a silent room).
+
+export type VoiceActivityOptions = {
+  // Called once speech has been followed by `silenceMs` of quiet, or has
+  // gone on for `maxSpeechMs` without a pause
+  onSilence?: () => void;
+  // Called when speech starts, e.g. to interrupt playback
+  onSpeechStart?: () => void;
+  silenceMs?: number;
+  // Shorter bursts (a cough, a door) don't count as speech
+  minSpeechMs?: number;
+  maxSpeechMs?: number;
+  // RMS below which nothing counts as speech, 0-1
+  minLevel?: number;
+  // How far above the background level speech has to be
+  noiseFactor?: number;
+};
+
+const DEFAULTS = {
+  silenceMs: 1_500,
+  minSpeechMs: 250,
+  maxSpeechMs: 60_000,
+  minLevel: 0.02,
+  noiseFactor: 2.5,
+};
+
+// How quickly the background level follows the room, per frame
+const NOISE_SMOOTHING = 0.05;
+
+function rmsLevel(samples: Uint8Array<ArrayBuffer>): number {
+  let sum = 0;
+  for (const sample of samples) {
+    const centered = (sample - 128) / 128;
+    sum += centered * centered;
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+// Starts listening right away; call the returned function to stop
+export function detectVoiceActivity(
+  analyser: AnalyserNode,
+  options: VoiceActivityOptions
+): () => void {
+  const { silenceMs, minSpeechMs, maxSpeechMs, minLevel, noiseFactor } = {
+    ...DEFAULTS,
+    ...options,
+  };
+  const samples = new Uint8Array(analyser.fftSize);
+
+  let frame: number | null = null;
+  let noiseLevel = minLevel / noiseFactor;
+  // When the current loud stretch began, and when speech was confirmed
+  let loudSince: number | null = null;
+  let speechSince: number | null = null;
+  let quietSince: number | null = null;
+
+  const stop = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+  };
+
+  const tick = (now: number) => {
+    analyser.getByteTimeDomainData(samples);
+    const level = rmsLevel(samples);
+    const isLoud = level > Math.max(minLevel, noiseLevel * noiseFactor);
+
+    if (isLoud) {
+      loudSince ??= now;
+      quietSince = null;
+      if (speechSince === null && now - loudSince >= minSpeechMs) {
+        speechSince = loudSince;
+        options.onSpeechStart?.();
+      }
+    } else {
+      loudSince = null;
+      quietSince ??= now;
+      if (speechSince === null) {
+        noiseLevel += (level - noiseLevel) * NOISE_SMOOTHING;
+      }
+    }
+
+    if (
+      speechSince !== null &&
+      ((quietSince !== null && now - quietSince >= silenceMs) ||
+        now - speechSince >= maxSpeechMs)
+    ) {
+      stop();
+      options.onSilence?.();
+      return;
+    }
+
+    frame = requestAnimationFrame(tick);
+  };
+
+  frame = requestAnimationFrame(tick);
+  return stop;
+}
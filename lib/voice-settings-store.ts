@@ -0,0 +1,41 @@
+import path from "path";
+import { createJsonFileStore } from "@/lib/json-file-store";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  mergeVoiceSettings,
+  type VoiceSettings,
+} from "@/lib/voice-settings";
+
+// File-backed voice settings, one entry per signed-in user
+
+type StoreFile = {
+  users: Record<string, VoiceSettings>;
+};
+
+const STORE_PATH =
+  process.env.VOICE_SETTINGS_STORE_PATH ||
+  path.join(process.cwd(), ".data", "voice-settings.json");
+
+const store = createJsonFileStore<StoreFile>(STORE_PATH, () => ({
+  users: {},
+}));
+
+export async function getVoiceSettings(userId: string): Promise<VoiceSettings> {
+  const { users } = await store.read();
+  // Fill in fields added since the entry was saved
+  return mergeVoiceSettings(DEFAULT_VOICE_SETTINGS, { ...users[userId] });
+}
+
+export function updateVoiceSettings(
+  userId: string,
+  update: Record<string, unknown>
+): Promise<VoiceSettings> {
+  return store.mutate((data) => {
+    const current = mergeVoiceSettings(DEFAULT_VOICE_SETTINGS, {
+      ...data.users[userId],
+    });
+    const settings = mergeVoiceSettings(current, update);
+    data.users[userId] = settings;
+    return settings;
+  });
+}
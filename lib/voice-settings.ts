@@ -0,0 +1,73 @@
+// Per-user voice and playback preferences, shared by the settings panel,
+// the chat and the /api/settings/voice route.
+
+export type VoiceSettings = {
+  // Read each answer's insights aloud as soon as it arrives
+  autoPlay: boolean;
+  // Speak the progress steps while a question is being answered
+  narrateProgress: boolean;
+  // Voice id of the speech provider; null uses the deployment's voice
+  voice: string | null;
+  // Playback speed, 1 is normal
+  rate: number;
+  // 0-1
+  volume: number;
+};
+
+export type VoiceOption = { id: string; label: string };
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  autoPlay: true,
+  narrateProgress: true,
+  voice: null,
+  rate: 1,
+  volume: 0.8,
+};
+
+export const RATE_RANGE = { min: 0.5, max: 2, step: 0.1 };
+export const VOLUME_RANGE = { min: 0, max: 1, step: 0.05 };
+
+const VOICE_ID_PATTERN = /^[\w.:-]{1,100}$/;
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+  Math.min(max, Math.max(min, value));
+
+// Apply the recognized fields of `input` on top of `base`; anything
+// malformed keeps the base value and numbers are clamped to their range
+export function mergeVoiceSettings(
+  base: VoiceSettings,
+  input: Record<string, unknown>
+): VoiceSettings {
+  const { autoPlay, narrateProgress, voice, rate, volume } = input;
+  return {
+    autoPlay: typeof autoPlay === "boolean" ? autoPlay : base.autoPlay,
+    narrateProgress:
+      typeof narrateProgress === "boolean"
+        ? narrateProgress
+        : base.narrateProgress,
+    voice:
+      voice === null ||
+      (typeof voice === "string" && VOICE_ID_PATTERN.test(voice))
+        ? voice
+        : base.voice,
+    rate:
+      typeof rate === "number" && Number.isFinite(rate)
+        ? clamp(rate, RATE_RANGE)
+        : base.rate,
+    volume:
+      typeof volume === "number" && Number.isFinite(volume)
+        ? clamp(volume, VOLUME_RANGE)
+        : base.volume,
+  };
+}
+
+// Volume and speed for an <audio> element. Loading a new src resets
+// playbackRate to defaultPlaybackRate, so both are set.
+export function applyPlaybackSettings(
+  audio: HTMLAudioElement,
+  { rate, volume }: Pick<VoiceSettings, "rate" | "volume">
+) {
+  audio.volume = volume;
+  audio.defaultPlaybackRate = rate;
+  audio.playbackRate = rate;
+}
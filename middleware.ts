@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getAuthConfig } from "@/lib/auth/config";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth/session";
+
+// Everything except the sign-in flow requires a session. API calls without
+// one get a 401; page requests are sent to /login and come back afterwards.
+const PUBLIC_PATHS = ["/login", "/api/auth"];
+// The mock backend is called server-side by the BI proxy, which forwards no
+// cookies; it is disabled in production anyway
+const SERVER_ONLY_PATHS = ["/api/mock-bi"];
+
+const matchesPrefix = (pathname: string, prefixes: string[]) =>
+  prefixes.some(
+    (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (matchesPrefix(pathname, [...PUBLIC_PATHS, ...SERVER_ONLY_PATHS])) {
+    return NextResponse.next();
+  }
+
+  let secret: string;
+  try {
+    secret = getAuthConfig().secret;
+  } catch (error) {
+    console.error("Auth configuration error:", error);
+    return NextResponse.json(
+      { error: "Sign-in is not configured correctly" },
+      { status: 500 }
+    );
+  }
+
+  const user = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value,
+    secret
+  );
+  if (user) return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "Your session has expired. Please sign in again." },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  if (pathname !== "/") loginUrl.searchParams.set("next", pathname + search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Skip build assets and files served from public/
+  matcher: ["/((?!_next/static|_next/image|favicon\\.ico|.*\\.[\\w]+$).*)"],
+};